@@ -1,42 +1,202 @@
-import { get, set } from "idb-keyval";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { delMany, get, set } from "idb-keyval";
+import { CSSProperties, ReactNode, useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
-import { DirectoryNode, TrackNode, scanMusicTree } from "./lib/fs";
-import { activeLyricIndex, LyricLine, parseLrc } from "./lib/lrc";
-import { TrackMetadata, parseTrackMetadata } from "./lib/metadata";
+import {
+  DirectoryNode,
+  ScanResult,
+  TrackFileInfo,
+  TrackNode,
+  canPlayCodec,
+  flattenTracks,
+  parentDirectoryHandle,
+  scanMusicTree,
+  sidecarLrcName,
+  uniqueRootPath,
+  withTrackLyrics,
+  withUnsupportedTracks,
+} from "./lib/fs";
+import {
+  activeLyricIndex,
+  activeLyricWordIndex,
+  LyricLine,
+  parseLrcDocument,
+  setLrcOffsetTag,
+  shiftLrcTimestamps,
+} from "./lib/lrc";
+import { TrackMetadata, TrackTags, parseTrackMetadata, parseTrackTags } from "./lib/metadata";
+import { ResolvedPlaylist, buildM3u8, readPlaylists } from "./lib/playlist";
+import { buildSearchDocuments, searchLibrary } from "./lib/search";
+import { BrowseGroup, LibraryView, buildBrowseGroups } from "./lib/browse";
+import {
+  EMPTY_QUEUE,
+  PlayQueue,
+  currentQueueEntry,
+  enqueue,
+  enqueueNext,
+  jumpToQueueEntry,
+  moveQueueEntry,
+  removeQueueEntry,
+  replaceQueue,
+  stepQueue,
+} from "./lib/queue";
+import {
+  DEFAULT_PLAYBACK_MODES,
+  EMPTY_HISTORY,
+  PlaybackHistory,
+  PlaybackModes,
+  RepeatMode,
+  ShuffleBag,
+  ShuffleScope,
+  drawFromShuffleBag,
+  pushHistory,
+  stepHistory,
+} from "./lib/shuffle";
+import { AudioGraph, createAudioGraph, rampOutputGain, setElementGain, setEqualizer } from "./lib/audiograph";
+import {
+  BUILT_IN_EQUALIZER_PRESETS,
+  DEFAULT_EQUALIZER_SETTINGS,
+  EQUALIZER_FREQUENCIES,
+  EqualizerPreset,
+  EqualizerSettings,
+  MAX_BAND_GAIN_DB,
+  MIN_BAND_GAIN_DB,
+  equalizerResponse,
+  matchingPreset,
+  normalizeBandGains,
+} from "./lib/equalizer";
+import {
+  DEFAULT_REPLAY_GAIN_SETTINGS,
+  MAX_PREAMP_DB,
+  MIN_PREAMP_DB,
+  ReplayGainInfo,
+  ReplayGainMode,
+  ReplayGainSettings,
+  replayGainMultiplier,
+} from "./lib/replaygain";
+import { LoudnessEstimate, estimateLoudness, loudnessEstimateInfo } from "./lib/loudness";
+import {
+  SyncDraft,
+  createSyncDraft,
+  moveSyncCursor,
+  stampCurrentLine,
+  syncDraftLyrics,
+  syncDraftToLrc,
+  undoSyncStep,
+} from "./lib/authoring";
+import {
+  SleepTimer,
+  SleepTimerMode,
+  isFinalSleepTrack,
+  sleepRemainingMs,
+  sleepTimerAfterTrackEnded,
+  startSleepTimer,
+} from "./lib/sleep";
+import {
+  BluetoothDisplaySettings,
+  BluetoothMetadataPayload,
+  CALIBRATION_RULERS,
+  CharacterWidthModel,
+  DEFAULT_BLUETOOTH_SETTINGS,
+  GLYPH_CLASSES,
+  GlyphClass,
+  BluetoothProfile,
+  DEFAULT_LYRIC_WIDTH_SCALE,
+  LYRIC_LINE_ROLES,
+  LyricLineRole,
+  MAX_LYRIC_WIDTH_SCALE,
+  MAX_METADATA_REFRESH_INTERVAL_MS,
+  MAX_SONG_METADATA_SECONDS,
+  METADATA_FIELDS,
+  MIN_LYRIC_WIDTH_SCALE,
+  MIN_METADATA_REFRESH_INTERVAL_MS,
+  MIN_SCROLL_PORTION,
+  MIN_SONG_METADATA_SECONDS,
+  MetadataField,
+  SCROLL_MODES,
+  ScrollMode,
+  buildMetadataPayload,
+  createBluetoothProfile,
+  exportBluetoothProfiles,
+  normalizeWidthModel,
+  normalizeBluetoothSettings,
+  parseBluetoothProfileExport,
+  uniqueProfileName,
+} from "./lib/bluetooth";
+import {
+  buildLineWindows,
+  clipToWidth,
+  createWidthModelMeasurer,
+  lyricLineBounds,
+  lyricWindowAt,
+  splitGraphemes,
+} from "./lib/scroll";
+import { SimulationIssue, publishAt, simulateBluetoothTimeline } from "./lib/simulator";
+import {
+  DirectorySource,
+  fileHandleOf,
+  importDroppedDirectory,
+  importFileList,
+  isDirectoryHandle,
+  readFileSource,
+  sameDirectorySource,
+} from "./lib/source";
 
 const ROOT_HANDLE_KEY = "music-root-handle";
+const LIBRARY_ROOTS_KEY = "music-roots";
 const TREE_OPEN_STATE_KEY = "library-open-directories";
+// display settings saved one key each before they moved into Bluetooth profiles
 const LYRIC_FIELD_MAPPING_KEY = "bluetooth-lyric-field-mapping";
 const LYRIC_WIDTH_SCALE_KEY = "bluetooth-lyric-width-scale";
 const LYRIC_SCROLL_PROFILE_KEY = "bluetooth-lyric-scroll-profile";
 const LYRIC_UPDATE_INTERVAL_KEY = "bluetooth-lyric-update-interval-ms";
 const LYRIC_MIN_SONG_METADATA_SECONDS_KEY = "bluetooth-lyric-min-song-metadata-seconds";
 const PLAYBACK_SNAPSHOT_KEY = "playback-snapshot";
+const LIBRARY_INDEX_KEY = "library-index";
+const PLAY_QUEUE_KEY = "play-queue";
+const PLAYBACK_MODES_KEY = "playback-modes";
+const LIBRARY_VIEW_KEY = "library-view";
+const PLAYBACK_TRANSITION_KEY = "playback-transition";
+const REPLAY_GAIN_KEY = "replay-gain";
+const LOUDNESS_ESTIMATES_KEY = "loudness-estimates";
+const EQUALIZER_KEY = "equalizer";
+const EQUALIZER_PRESETS_KEY = "equalizer-presets";
+const PLAYBACK_SPEED_KEY = "playback-speed";
+const LYRIC_OFFSETS_KEY = "lyric-offsets";
+const BLUETOOTH_PROFILES_KEY = "bluetooth-profiles";
+const ACTIVE_BLUETOOTH_PROFILE_KEY = "bluetooth-active-profile";
 
 const BLUETOOTH_WIDTH_BASELINE_M = 14;
 const BLUETOOTH_WIDTH_SAFETY = 0.9;
-const DEFAULT_LYRIC_WIDTH_SCALE = 1;
 const LYRIC_TIMELINE_TICK_MS = 100;
-const DEFAULT_METADATA_REFRESH_INTERVAL_MS = 100;
-const MIN_METADATA_REFRESH_INTERVAL_MS = 10;
-const MAX_METADATA_REFRESH_INTERVAL_MS = 5000;
-const DEFAULT_MIN_SONG_METADATA_SECONDS = 5;
-const MIN_SONG_METADATA_SECONDS = 0;
-const MAX_SONG_METADATA_SECONDS = 30;
-const DEFAULT_SCROLL_DWELL_START = 0.25;
-const DEFAULT_SCROLL_DWELL_END = 0.25;
-const MIN_SCROLL_PORTION = 0.1;
-const EMPTY_METADATA_PLACEHOLDER = " ";
-
-type MetadataField = "title" | "artist" | "album";
-type LyricLineRole = "previous" | "current" | "next";
-
-interface BluetoothMetadataPayload {
-  title: string;
-  artist: string;
-  album: string;
-  artworkUrl?: string;
+const SIMULATION_TICK_MS = 50;
+const LYRICS_MANUAL_SCROLL_PAUSE_MS = 4000;
+const SIMULATION_SPEEDS = [1, 2, 4, 8, 16];
+const LIBRARY_INDEX_BATCH_SIZE = 50;
+const SEARCH_RESULT_LIMIT = 100;
+const MIN_PLAYBACK_SPEED = 0.5;
+const MAX_PLAYBACK_SPEED = 2;
+const PLAYBACK_SPEED_OPTIONS = [0.5, 0.6, 0.7, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+const SYNC_REWIND_MS = 3000;
+const SLEEP_FADE_SECONDS = 20;
+const SLEEP_TICK_MS = 1000;
+const EQ_PREVIEW_WIDTH = 320;
+const EQ_PREVIEW_HEIGHT = 120;
+const EQ_PREVIEW_RANGE_DB = 15;
+const EQ_PREVIEW_POINTS = 160;
+const CROSSFADE_STEP_MS = 50;
+// the preloaded element needs a moment to start producing sound after play()
+const GAPLESS_LEAD_MS = 20;
+const GAPLESS_ARM_SECONDS = 1;
+const GAPLESS_RELEASE_FALLBACK_MS = 1000;
+const MAX_CROSSFADE_SECONDS = 12;
+
+type LyricsSource = "sidecar" | "embedded";
+// "revoked" is read access that lapsed while the app was open, "missing" a folder that was moved or deleted
+type RootAccess = FileSystemPermissionState | "revoked" | "missing";
+
+interface WidthCalibration {
+  step: number;
+  capacities: Partial<CharacterWidthModel>;
 }
 
 interface PlaybackSnapshot {
@@ -45,12 +205,182 @@ interface PlaybackSnapshot {
   wasPlaying: boolean;
 }
 
+interface LibraryRoot {
+  id: string;
+  label: string;
+  source: DirectorySource;
+}
+
+interface LibraryRootIndex {
+  id: string;
+  source: DirectorySource;
+  root: DirectoryNode;
+}
+
+interface LibraryIndex {
+  roots: LibraryRootIndex[];
+  fileInfo: Record<string, TrackFileInfo>;
+  tags: Record<string, TrackTags>;
+  lyricsText: Record<string, string>;
+  playlists: ResolvedPlaylist[];
+}
+
+interface LibraryIndexProgress {
+  done: number;
+  total: number;
+}
+
 interface PlayTrackOptions {
   autoplay?: boolean;
   startTimeSeconds?: number;
   expandDirectory?: boolean;
 }
 
+interface AdvanceOptions {
+  automatic?: boolean;
+  expandDirectory?: boolean;
+}
+
+interface PlaybackTransition {
+  gapless: boolean;
+  crossfadeSeconds: number;
+}
+
+interface PreloadedTrack {
+  track: TrackNode;
+  file: File;
+  url: string;
+}
+
+interface NextTrackPlan {
+  track: TrackNode;
+  commit: () => void;
+}
+
+interface PlaybackSpeedSettings {
+  global: number;
+  perTrack: Record<string, number>;
+}
+
+const DEFAULT_PLAYBACK_SPEED: PlaybackSpeedSettings = {
+  global: 1,
+  perTrack: {},
+};
+
+function clampPlaybackSpeed(value: unknown): number {
+  const speed = Number(value);
+  return Number.isFinite(speed) ? Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed)) : 1;
+}
+
+const DEFAULT_PLAYBACK_TRANSITION: PlaybackTransition = {
+  gapless: true,
+  crossfadeSeconds: 0,
+};
+
+function unchangedTrackTags(previous: LibraryIndex, fileInfo: Record<string, TrackFileInfo>): Record<string, TrackTags> {
+  const tags: Record<string, TrackTags> = {};
+  for (const [trackId, info] of Object.entries(fileInfo)) {
+    const previousInfo = previous.fileInfo[trackId];
+    const previousTags = previous.tags[trackId];
+    if (
+      previousTags &&
+      previousInfo &&
+      previousInfo.size === info.size &&
+      previousInfo.lastModified === info.lastModified
+    ) {
+      tags[trackId] = previousTags;
+    }
+  }
+  return tags;
+}
+
+function unchangedLyricsText(previous: LibraryIndex, fileInfo: Record<string, TrackFileInfo>): Record<string, string> {
+  const lyricsText: Record<string, string> = {};
+  for (const [trackId, info] of Object.entries(fileInfo)) {
+    const previousText = previous.lyricsText[trackId];
+    if (
+      previousText !== undefined &&
+      info.lyricsLastModified !== undefined &&
+      previous.fileInfo[trackId]?.lyricsLastModified === info.lyricsLastModified
+    ) {
+      lyricsText[trackId] = previousText;
+    }
+  }
+  return lyricsText;
+}
+
+async function cachedLibraryIndex(stored: LibraryIndex, roots: LibraryRoot[]): Promise<LibraryIndex | null> {
+  const matching: LibraryRootIndex[] = [];
+  for (const root of roots) {
+    const cached = stored.roots.find((entry) => entry.id === root.id);
+    if (cached && (await sameDirectorySource(cached.source, root.source))) {
+      matching.push(cached);
+    }
+  }
+  if (matching.length === 0) {
+    return null;
+  }
+  return { ...stored, roots: matching };
+}
+
+// imported folders have no handle, so only roots opened through the File System Access API can be written to
+function rootHandleForPath(index: LibraryIndex, path: string): FileSystemDirectoryHandle | undefined {
+  const source = index.roots.find((root) => path.startsWith(`${root.id}/`))?.source;
+  return source && isDirectoryHandle(source) ? source : undefined;
+}
+
+// imported folders only last for the session, and storing their File objects would copy every track into IndexedDB
+function saveLibraryRoots(roots: LibraryRoot[]) {
+  return set(
+    LIBRARY_ROOTS_KEY,
+    roots.filter((root) => isDirectoryHandle(root.source))
+  );
+}
+
+function saveLibraryIndex(index: LibraryIndex) {
+  return set(LIBRARY_INDEX_KEY, { ...index, roots: index.roots.filter((root) => isDirectoryHandle(root.source)) });
+}
+
+async function findAsync<T>(items: T[], predicate: (item: T) => Promise<boolean>): Promise<T | undefined> {
+  for (const item of items) {
+    if (await predicate(item)) {
+      return item;
+    }
+  }
+  return undefined;
+}
+
+function lostAccessState(error: unknown): RootAccess | null {
+  if (!(error instanceof DOMException)) {
+    return null;
+  }
+  if (error.name === "NotFoundError") {
+    return "missing";
+  }
+  return error.name === "NotAllowedError" || error.name === "SecurityError" ? "revoked" : null;
+}
+
+// flags are kept per track so indexing a batch of tags only touches the tree when a codec rules a track out
+function unsupportedCodecs(tracks: TrackNode[], tags: Record<string, TrackTags>): Record<string, true> {
+  const unsupported: Record<string, true> = {};
+  for (const track of tracks) {
+    if (track.supported && tags[track.id] && !canPlayCodec(track.extension, tags[track.id].codec)) {
+      unsupported[track.id] = true;
+    }
+  }
+  return unsupported;
+}
+
+// poll faster when sped up so lyrics advance at the same media-time resolution
+function lyricTimelineIntervalMs(playbackRate: number): number {
+  return LYRIC_TIMELINE_TICK_MS / Math.max(1, playbackRate);
+}
+
+function parentDirectoryPath(trackPath: string): string {
+  const slashIndex = trackPath.lastIndexOf("/");
+  return slashIndex < 0 ? "" : trackPath.slice(0, slashIndex);
+}
+
 function directoryAncestorsFromTrackPath(trackPath: string): string[] {
   const parts = trackPath.split("/").filter(Boolean);
   if (parts.length < 2) {
@@ -69,6 +399,7 @@ const LINE_ROLE_LABELS: Record<LyricLineRole, string> = {
   previous: "Previous line",
   current: "Current line",
   next: "Next line",
+  translation: "Translation of current line",
 };
 
 const FIELD_LABELS: Record<MetadataField, string> = {
@@ -77,82 +408,85 @@ const FIELD_LABELS: Record<MetadataField, string> = {
   album: "Album",
 };
 
-const DEFAULT_FIELD_MAPPING: Record<MetadataField, LyricLineRole> = {
-  title: "previous",
-  artist: "current",
-  album: "next",
+const LYRICS_SOURCE_LABELS: Record<LyricsSource, string> = {
+  sidecar: "Lyrics from .lrc file",
+  embedded: "Lyrics embedded in audio tags",
 };
 
-function splitGraphemes(text: string): string[] {
-  const maybeIntl = Intl as unknown as {
-    Segmenter?: new (locale?: string | string[], options?: { granularity: string }) => {
-      segment(input: string): Iterable<{ segment: string }>;
-    };
-  };
+const LIBRARY_VIEW_LABELS: Record<LibraryView, string> = {
+  folders: "Folders",
+  artists: "Artists",
+  albums: "Albums",
+  genres: "Genres",
+};
 
-  if (typeof maybeIntl.Segmenter === "function") {
-    const segmenter = new maybeIntl.Segmenter(undefined, { granularity: "grapheme" });
-    return Array.from(segmenter.segment(text), (part) => part.segment);
-  }
-  return Array.from(text);
-}
+const REPEAT_MODE_LABELS: Record<RepeatMode, string> = {
+  off: "Repeat off",
+  all: "Repeat all",
+  one: "Repeat one",
+};
 
-function createTextWidthMeasurer() {
-  const canvas = document.createElement("canvas");
-  const context = canvas.getContext("2d");
-  if (!context) {
-    return (text: string) => text.length * 8;
-  }
+const ROOT_ACCESS_MESSAGES: Record<Exclude<RootAccess, "granted">, string> = {
+  prompt: "needs permission again before the library can be played.",
+  denied: "could not be opened because access was denied. Allow it in the browser's site settings or try again.",
+  revoked: "is no longer accessible because its permission was revoked.",
+  missing: "could not be found. It may have been moved or deleted; remove it and add it again.",
+};
 
-  context.font = '16px "Segoe UI", sans-serif';
-  return (text: string) => context.measureText(text).width;
-}
+const READ_ONLY_LIBRARY_MESSAGE =
+  "Imported folders are read-only. Open the folder with Add Music Folder in a browser with folder access to save files.";
 
-function buildFittingWindows(text: string, maxWidthPx: number, measureWidth: (text: string) => number): string[] {
-  if (!text.trim()) {
-    return [""];
-  }
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: "all",
+  all: "one",
+  one: "off",
+};
 
-  if (measureWidth(text.trimStart()) <= maxWidthPx) {
-    return [text.trimStart()];
-  }
+const SHUFFLE_SCOPE_LABELS: Record<ShuffleScope, string> = {
+  off: "Shuffle off",
+  library: "Shuffle library",
+  folder: "Shuffle folder",
+  queue: "Shuffle queue",
+};
 
-  const graphemes = splitGraphemes(text);
-  const windows: string[] = [];
+const REPLAY_GAIN_MODE_LABELS: Record<ReplayGainMode, string> = {
+  off: "Off",
+  track: "Track gain",
+  album: "Album gain",
+};
 
-  for (let start = 0; start < graphemes.length; start += 1) {
-    let candidate = "";
-    let reachedLineEnd = false;
-    for (let end = start; end < graphemes.length; end += 1) {
-      const nextCandidate = candidate + graphemes[end];
-      if (measureWidth(nextCandidate.trimStart()) <= maxWidthPx) {
-        candidate = nextCandidate;
-        reachedLineEnd = end === graphemes.length - 1;
-        continue;
-      }
-      break;
-    }
+const SLEEP_TIMER_MODE_LABELS: Record<SleepTimerMode, string> = {
+  minutes: "Sleep after minutes",
+  "track-end": "Sleep after this track",
+  tracks: "Sleep after tracks",
+};
 
-    if (!candidate) {
-      candidate = graphemes[start];
-    }
+const SCROLL_MODE_LABELS: Record<ScrollMode, string> = {
+  grapheme: "Letter by letter",
+  word: "Word by word",
+  page: "Page by page",
+};
 
-    const normalized = candidate.trimStart();
-    const finalWindow = normalized || candidate;
-    if (windows[windows.length - 1] !== finalWindow) {
-      windows.push(finalWindow);
-    }
+const GLYPH_CLASS_LABELS: Record<GlyphClass, string> = {
+  regular: "regular characters",
+  narrow: "narrow characters",
+  wide: "wide characters",
+};
 
-    if (reachedLineEnd) {
-      break;
-    }
-  }
+const SIMULATION_ISSUE_LABELS: Record<SimulationIssue, string> = {
+  "scrolls-too-fast": "Scrolls faster than updates allow",
+  "last-words-hidden": "Last words never shown",
+};
 
-  return windows.length > 0 ? windows : [text];
-}
+function createTextWidthMeasurer() {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return (text: string) => text.length * 8;
+  }
 
-function metadataFieldValueOrPlaceholder(text: string): string {
-  return text.trim().length > 0 ? text : EMPTY_METADATA_PLACEHOLDER;
+  context.font = '16px "Segoe UI", sans-serif';
+  return (text: string) => context.measureText(text).width;
 }
 
 function formatDuration(totalSeconds: number): string {
@@ -166,10 +500,58 @@ function formatDuration(totalSeconds: number): string {
   return `${minutes}:${seconds}`;
 }
 
+interface TrackRowProps {
+  track: TrackNode;
+  label?: string;
+  detail?: string;
+  isActive: boolean;
+  onPlay(track: TrackNode): void;
+  onPlayNext(tracks: TrackNode[]): void;
+  onAddToQueue(tracks: TrackNode[]): void;
+  onReveal?(track: TrackNode): void;
+}
+
+function TrackRow({ track, label, detail, isActive, onPlay, onPlayNext, onAddToQueue, onReveal }: TrackRowProps) {
+  return (
+    <div className="track-row" data-track-id={track.id}>
+      <button
+        className={`track-button ${isActive ? "track-button-active" : ""} ${
+          track.supported ? "" : "track-button-unsupported"
+        }`}
+        onClick={() => onPlay(track)}
+        title={track.supported ? undefined : "This browser cannot play this format."}
+        type="button"
+      >
+        {label ?? track.name}
+        {!track.supported && <span className="track-badge">unsupported</span>}
+        {detail && <span className="track-detail">{detail}</span>}
+      </button>
+      {track.supported && (
+        <>
+          <button className="track-action" onClick={() => onPlayNext([track])} title="Play next" type="button">
+            Next
+          </button>
+          <button className="track-action" onClick={() => onAddToQueue([track])} title="Add to queue" type="button">
+            Queue
+          </button>
+        </>
+      )}
+      {onReveal && (
+        <button className="track-action" onClick={() => onReveal(track)} title="Show in folder" type="button">
+          Show
+        </button>
+      )}
+    </div>
+  );
+}
+
 interface TreeProps {
   node: DirectoryNode;
   currentTrackId: string | null;
   onPlay(track: TrackNode): void;
+  onPlayNext(tracks: TrackNode[]): void;
+  onAddToQueue(tracks: TrackNode[]): void;
+  onPlayAll(tracks: TrackNode[]): void;
   openDirectories: Record<string, boolean>;
   onDirectoryOpenChange(directoryId: string, open: boolean): void;
   isRoot?: boolean;
@@ -179,6 +561,9 @@ function TreeNode({
   node,
   currentTrackId,
   onPlay,
+  onPlayNext,
+  onAddToQueue,
+  onPlayAll,
   openDirectories,
   onDirectoryOpenChange,
   isRoot = false,
@@ -193,59 +578,532 @@ function TreeNode({
         onDirectoryOpenChange(node.id, event.currentTarget.open);
       }}
     >
-      <summary>{node.name}</summary>
+      <summary>
+        {node.name}
+        <button
+          className="track-action"
+          onClick={(event) => {
+            event.preventDefault();
+            onPlayAll(flattenTracks(node));
+          }}
+          title="Play this folder"
+          type="button"
+        >
+          Play folder
+        </button>
+      </summary>
       <div className="tree-children">
         {node.directories.map((directory) => (
           <TreeNode
             key={directory.id}
             node={directory}
             onPlay={onPlay}
+            onPlayNext={onPlayNext}
+            onAddToQueue={onAddToQueue}
+            onPlayAll={onPlayAll}
             currentTrackId={currentTrackId}
             openDirectories={openDirectories}
             onDirectoryOpenChange={onDirectoryOpenChange}
           />
         ))}
         {node.tracks.map((track) => (
-          <button
+          <TrackRow
             key={track.id}
-            className={`track-button ${track.id === currentTrackId ? "track-button-active" : ""}`}
-            onClick={() => onPlay(track)}
-            type="button"
-          >
-            {track.name}
-          </button>
+            track={track}
+            isActive={track.id === currentTrackId}
+            onPlay={onPlay}
+            onPlayNext={onPlayNext}
+            onAddToQueue={onAddToQueue}
+          />
         ))}
       </div>
     </details>
   );
 }
 
+interface BrowseGroupProps {
+  group: BrowseGroup;
+  tags: Record<string, TrackTags>;
+  currentTrackId: string | null;
+  onPlay(track: TrackNode): void;
+  onPlayNext(tracks: TrackNode[]): void;
+  onAddToQueue(tracks: TrackNode[]): void;
+  onPlayAll(tracks: TrackNode[]): void;
+}
+
+function BrowseGroupNode({ group, tags, currentTrackId, onPlay, onPlayNext, onAddToQueue, onPlayAll }: BrowseGroupProps) {
+  return (
+    <details className="tree-node">
+      <summary>
+        {group.name} ({group.tracks.length})
+        <button
+          className="track-action"
+          onClick={(event) => {
+            event.preventDefault();
+            onPlayAll(group.tracks);
+          }}
+          type="button"
+        >
+          Play
+        </button>
+        <button
+          className="track-action"
+          onClick={(event) => {
+            event.preventDefault();
+            onAddToQueue(group.tracks);
+          }}
+          type="button"
+        >
+          Queue
+        </button>
+      </summary>
+      <div className="tree-children">
+        {group.groups.length > 0
+          ? group.groups.map((child) => (
+              <BrowseGroupNode
+                key={child.id}
+                group={child}
+                tags={tags}
+                currentTrackId={currentTrackId}
+                onPlay={onPlay}
+                onPlayNext={onPlayNext}
+                onAddToQueue={onAddToQueue}
+                onPlayAll={onPlayAll}
+              />
+            ))
+          : group.tracks.map((track) => {
+              const trackTags = tags[track.id];
+              const label = trackTags
+                ? `${trackTags.trackNumber ? `${trackTags.trackNumber}. ` : ""}${trackTags.title}`
+                : track.name;
+              return (
+                <TrackRow
+                  key={track.id}
+                  track={track}
+                  label={label}
+                  isActive={track.id === currentTrackId}
+                  onPlay={onPlay}
+                  onPlayNext={onPlayNext}
+                  onAddToQueue={onAddToQueue}
+                />
+              );
+            })}
+      </div>
+    </details>
+  );
+}
+
+interface PlaylistSectionProps {
+  playlists: ResolvedPlaylist[];
+  tracksById: Map<string, TrackNode>;
+  currentTrackId: string | null;
+  onPlay(track: TrackNode): void;
+  onPlayNext(tracks: TrackNode[]): void;
+  onAddToQueue(tracks: TrackNode[]): void;
+  onPlayAll(tracks: TrackNode[]): void;
+}
+
+function PlaylistSection({
+  playlists,
+  tracksById,
+  currentTrackId,
+  onPlay,
+  onPlayNext,
+  onAddToQueue,
+  onPlayAll,
+}: PlaylistSectionProps) {
+  return (
+    <div className="playlist-section">
+      {playlists.map((playlist) => {
+        const playlistTracks = playlist.trackIds
+          .map((trackId) => tracksById.get(trackId))
+          .filter((track): track is TrackNode => Boolean(track));
+        return (
+          <details key={playlist.id} className="tree-node">
+            <summary>
+              {playlist.name} ({playlistTracks.length})
+              <button
+                className="track-action"
+                onClick={(event) => {
+                  event.preventDefault();
+                  onPlayAll(playlistTracks);
+                }}
+                type="button"
+              >
+                Play
+              </button>
+              <button
+                className="track-action"
+                onClick={(event) => {
+                  event.preventDefault();
+                  onAddToQueue(playlistTracks);
+                }}
+                type="button"
+              >
+                Queue
+              </button>
+            </summary>
+            <div className="tree-children">
+              {playlist.unresolved.length > 0 && (
+                <details className="unresolved-entries">
+                  <summary className="hint">{playlist.unresolved.length} entries could not be found</summary>
+                  <ul>
+                    {playlist.unresolved.map((entry, index) => (
+                      <li key={`${entry}-${index}`}>{entry}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {playlistTracks.map((track, index) => (
+                <TrackRow
+                  key={`${track.id}-${index}`}
+                  track={track}
+                  isActive={track.id === currentTrackId}
+                  onPlay={onPlay}
+                  onPlayNext={onPlayNext}
+                  onAddToQueue={onAddToQueue}
+                />
+              ))}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+interface QueuePanelProps {
+  queue: PlayQueue;
+  tracksById: Map<string, TrackNode>;
+  onJump(index: number): void;
+  onMove(fromIndex: number, toIndex: number): void;
+  onRemove(index: number): void;
+  onClear(): void;
+  onSave?(): void;
+}
+
+function QueuePanel({ queue, tracksById, onJump, onMove, onRemove, onClear, onSave }: QueuePanelProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  if (queue.entries.length === 0) {
+    return <p className="empty">The queue is empty. Use "Next" or "Queue" on a track to add it.</p>;
+  }
+
+  return (
+    <>
+      <ol className="queue-list">
+        {queue.entries.map((entry, index) => {
+          const track = tracksById.get(entry.trackId);
+          const stateClass =
+            index === queue.position ? "queue-item-current" : index < queue.position ? "queue-item-played" : "";
+          return (
+            <li
+              key={entry.key}
+              className={`queue-item ${stateClass} ${dragIndex === index ? "queue-item-dragging" : ""}`}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null) {
+                  onMove(dragIndex, index);
+                }
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+            >
+              <button className="queue-title" onClick={() => onJump(index)} disabled={!track?.supported} type="button">
+                {track ? track.name : "Missing track"}
+              </button>
+              <button
+                className="track-action"
+                onClick={() => onMove(index, index - 1)}
+                disabled={index === 0}
+                title="Move up"
+                type="button"
+              >
+                ↑
+              </button>
+              <button
+                className="track-action"
+                onClick={() => onMove(index, index + 1)}
+                disabled={index === queue.entries.length - 1}
+                title="Move down"
+                type="button"
+              >
+                ↓
+              </button>
+              <button className="track-action" onClick={() => onRemove(index)} title="Remove from queue" type="button">
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="queue-actions">
+        <button className="track-action" onClick={onClear} type="button">
+          Clear queue
+        </button>
+        {onSave && (
+          <button className="track-action" onClick={onSave} type="button">
+            Save as M3U8 playlist
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
+interface LyricsViewProps {
+  lyrics: LyricLine[];
+  activeLine: number;
+  activeWord: number;
+  timeMs: number;
+  playbackRate: number;
+  onSeek(line: LyricLine): void;
+}
+
+function sweepStyle(startMs: number, endMs: number, timeMs: number): CSSProperties {
+  const progress = endMs > startMs ? Math.min(1, Math.max(0, (timeMs - startMs) / (endMs - startMs))) : 1;
+  return { "--sweep": `${(progress * 100).toFixed(1)}%` } as CSSProperties;
+}
+
+function LyricsView({ lyrics, activeLine, activeWord, timeMs, playbackRate, onSeek }: LyricsViewProps) {
+  const viewRef = useRef<HTMLDivElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const manualScrollUntilRef = useRef(0);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const box = boxRef.current;
+    const active = box?.querySelector<HTMLElement>(".lyric-active");
+    if (!box || !active || Date.now() < manualScrollUntilRef.current) {
+      return;
+    }
+    box.scrollTo({ top: active.offsetTop - box.clientHeight / 2 + active.offsetHeight / 2, behavior: "smooth" });
+  }, [activeLine, isFullscreen]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === viewRef.current);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    const view = viewRef.current;
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+    } else if (isFullscreen || !view || typeof view.requestFullscreen !== "function") {
+      // browsers without the Fullscreen API get a fixed overlay instead
+      setIsFullscreen((prev) => !prev);
+    } else {
+      view.requestFullscreen().catch(() => setIsFullscreen(true));
+    }
+  }, [isFullscreen]);
+
+  // a manual scroll pauses following the song for a moment
+  const pauseAutoScroll = useCallback(() => {
+    manualScrollUntilRef.current = Date.now() + LYRICS_MANUAL_SCROLL_PAUSE_MS;
+  }, []);
+
+  if (lyrics.length === 0) {
+    return (
+      <div className="lyrics-box">
+        <p className="empty">No synced lyrics found for this track.</p>
+      </div>
+    );
+  }
+
+  const lineEndMs = activeLine >= 0 ? lyricLineBounds(lyrics, activeLine, playbackRate).endMs : 0;
+
+  return (
+    <div ref={viewRef} className={isFullscreen ? "lyrics-view lyrics-view-fullscreen" : "lyrics-view"}>
+      <button className="track-action lyrics-fullscreen-toggle" onClick={toggleFullscreen} type="button">
+        {isFullscreen ? "Exit fullscreen" : "Fullscreen lyrics"}
+      </button>
+      <div ref={boxRef} className="lyrics-box" onWheel={pauseAutoScroll} onTouchMove={pauseAutoScroll}>
+        {lyrics.map((line, index) => {
+          const isActive = index === activeLine;
+          const words = line.words;
+          let content: ReactNode = line.text;
+          if (isActive && words) {
+            content = words.map((word, wordIndex) =>
+              wordIndex === activeWord ? (
+                <span
+                  key={`${word.timeMs}-${wordIndex}`}
+                  className="lyric-sweep"
+                  style={sweepStyle(word.timeMs, words[wordIndex + 1]?.timeMs ?? lineEndMs, timeMs)}
+                >
+                  {word.text}
+                </span>
+              ) : (
+                <span
+                  key={`${word.timeMs}-${wordIndex}`}
+                  className={wordIndex < activeWord ? "lyric-word-sung" : "lyric-word"}
+                >
+                  {word.text}
+                </span>
+              )
+            );
+          } else if (isActive) {
+            content = (
+              <span className="lyric-sweep" style={sweepStyle(line.timeMs, lineEndMs, timeMs)}>
+                {line.text}
+              </span>
+            );
+          }
+          return (
+            <button
+              key={`${line.timeMs}-${index}`}
+              className={isActive ? "lyric-active" : "lyric-line"}
+              onClick={() => onSeek(line)}
+              type="button"
+            >
+              {content}
+              {line.translations?.map((translation, translationIndex) => (
+                <span key={translationIndex} className="lyric-translation">
+                  {translation}
+                </span>
+              ))}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function formatBandFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : String(frequency);
+}
+
+function EqualizerPreview({ gains }: { gains: number[] }) {
+  const frequencies = useMemo(
+    () =>
+      Float32Array.from({ length: EQ_PREVIEW_POINTS }, (_, index) => 20 * 1000 ** (index / (EQ_PREVIEW_POINTS - 1))),
+    []
+  );
+  const points = useMemo(() => {
+    const response = equalizerResponse(gains, frequencies);
+    return Array.from(response, (db, index) => {
+      const x = (index / (EQ_PREVIEW_POINTS - 1)) * EQ_PREVIEW_WIDTH;
+      const clamped = Math.min(EQ_PREVIEW_RANGE_DB, Math.max(-EQ_PREVIEW_RANGE_DB, db));
+      const y = ((EQ_PREVIEW_RANGE_DB - clamped) / (EQ_PREVIEW_RANGE_DB * 2)) * EQ_PREVIEW_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(" ");
+  }, [gains, frequencies]);
+
+  return (
+    <svg
+      className="eq-preview"
+      viewBox={`0 0 ${EQ_PREVIEW_WIDTH} ${EQ_PREVIEW_HEIGHT}`}
+      role="img"
+      aria-label="Equalizer frequency response"
+    >
+      <line
+        x1={0}
+        y1={EQ_PREVIEW_HEIGHT / 2}
+        x2={EQ_PREVIEW_WIDTH}
+        y2={EQ_PREVIEW_HEIGHT / 2}
+        className="eq-preview-axis"
+      />
+      <polyline points={points} className="eq-preview-curve" />
+    </svg>
+  );
+}
+
+function HeadUnitPreview({
+  payload,
+  maxWidth,
+  measureWidth,
+}: {
+  payload: BluetoothMetadataPayload | null;
+  maxWidth: number;
+  measureWidth: (text: string) => number;
+}) {
+  return (
+    <div className="head-unit">
+      <p>{clipToWidth(payload?.title ?? "", maxWidth, measureWidth)}</p>
+      <p>{clipToWidth(payload?.artist ?? "", maxWidth, measureWidth)}</p>
+      <p>{clipToWidth(payload?.album ?? "", maxWidth, measureWidth)}</p>
+    </div>
+  );
+}
+
 export default function App() {
-  const [tree, setTree] = useState<DirectoryNode | null>(null);
-  const [tracks, setTracks] = useState<TrackNode[]>([]);
+  const [libraryRoots, setLibraryRoots] = useState<LibraryRoot[]>([]);
+  const [rootNodes, setRootNodes] = useState<DirectoryNode[]>([]);
+  const [rootAccess, setRootAccess] = useState<Record<string, RootAccess>>({});
+  const [isDraggingFolder, setIsDraggingFolder] = useState(false);
+  const [undecodableTrackIds, setUndecodableTrackIds] = useState<Record<string, true>>({});
+  const [unsupportedCodecTrackIds, setUnsupportedCodecTrackIds] = useState<Record<string, true>>({});
   const [isScanning, setIsScanning] = useState(false);
+  const [isLibraryLive, setIsLibraryLive] = useState(false);
+  const [trackTags, setTrackTags] = useState<Record<string, TrackTags>>({});
+  const [lyricsText, setLyricsText] = useState<Record<string, string>>({});
+  const [playlists, setPlaylists] = useState<ResolvedPlaylist[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [libraryView, setLibraryView] = useState<LibraryView>("folders");
+  const [libraryViewHydrated, setLibraryViewHydrated] = useState(false);
+  const [revealTrackId, setRevealTrackId] = useState<string | null>(null);
+  const [libraryIndexProgress, setLibraryIndexProgress] = useState<LibraryIndexProgress | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
   const [currentTrackId, setCurrentTrackId] = useState<string | null>(null);
   const [currentMetadata, setCurrentMetadata] = useState<TrackMetadata | null>(null);
-  const [lyrics, setLyrics] = useState<LyricLine[]>([]);
+  const [trackLyrics, setTrackLyrics] = useState<LyricLine[]>([]);
+  const [lyricsSource, setLyricsSource] = useState<LyricsSource | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [openDirectories, setOpenDirectories] = useState<Record<string, boolean>>({});
   const [openStateHydrated, setOpenStateHydrated] = useState(false);
-  const [fieldMapping, setFieldMapping] = useState<Record<MetadataField, LyricLineRole>>(DEFAULT_FIELD_MAPPING);
-  const [fieldMappingHydrated, setFieldMappingHydrated] = useState(false);
-  const [lyricWidthScale, setLyricWidthScale] = useState(DEFAULT_LYRIC_WIDTH_SCALE);
-  const [lyricWidthScaleHydrated, setLyricWidthScaleHydrated] = useState(false);
-  const [scrollDwellStart, setScrollDwellStart] = useState(DEFAULT_SCROLL_DWELL_START);
-  const [scrollDwellEnd, setScrollDwellEnd] = useState(DEFAULT_SCROLL_DWELL_END);
-  const [scrollProfileHydrated, setScrollProfileHydrated] = useState(false);
-  const [metadataRefreshIntervalMs, setMetadataRefreshIntervalMs] = useState(DEFAULT_METADATA_REFRESH_INTERVAL_MS);
-  const [metadataRefreshIntervalHydrated, setMetadataRefreshIntervalHydrated] = useState(false);
-  const [minSongMetadataSeconds, setMinSongMetadataSeconds] = useState(DEFAULT_MIN_SONG_METADATA_SECONDS);
-  const [minSongMetadataSecondsHydrated, setMinSongMetadataSecondsHydrated] = useState(false);
+  const [calibration, setCalibration] = useState<WidthCalibration | null>(null);
+  const [bluetoothProfiles, setBluetoothProfiles] = useState<BluetoothProfile[]>([]);
+  const [activeBluetoothProfileId, setActiveBluetoothProfileId] = useState<string | null>(null);
+  const [bluetoothProfilesHydrated, setBluetoothProfilesHydrated] = useState(false);
+  const [bluetoothProfileError, setBluetoothProfileError] = useState<string | null>(null);
+  const [simulationPositionMs, setSimulationPositionMs] = useState(0);
+  const [simulationSpeed, setSimulationSpeed] = useState(1);
+  const [isSimulationPlaying, setIsSimulationPlaying] = useState(false);
   const [savedPlaybackSnapshot, setSavedPlaybackSnapshot] = useState<PlaybackSnapshot | null>(null);
   const [savedPlaybackSnapshotHydrated, setSavedPlaybackSnapshotHydrated] = useState(false);
+  const [playQueue, setPlayQueue] = useState<PlayQueue>(EMPTY_QUEUE);
+  const [playQueueHydrated, setPlayQueueHydrated] = useState(false);
+  const [playbackModes, setPlaybackModes] = useState<PlaybackModes>(DEFAULT_PLAYBACK_MODES);
+  const [playbackModesHydrated, setPlaybackModesHydrated] = useState(false);
+  const [playbackHistory, setPlaybackHistory] = useState<PlaybackHistory>(EMPTY_HISTORY);
+  const [playbackTransition, setPlaybackTransition] = useState<PlaybackTransition>(DEFAULT_PLAYBACK_TRANSITION);
+  const [playbackTransitionHydrated, setPlaybackTransitionHydrated] = useState(false);
+  const [audioGeneration, setAudioGeneration] = useState(0);
+  const [isCrossfading, setIsCrossfading] = useState(false);
+  const [replayGainSettings, setReplayGainSettings] = useState<ReplayGainSettings>(DEFAULT_REPLAY_GAIN_SETTINGS);
+  const [replayGainSettingsHydrated, setReplayGainSettingsHydrated] = useState(false);
+  const [loudnessEstimates, setLoudnessEstimates] = useState<Record<string, LoudnessEstimate>>({});
+  const [loudnessEstimatesHydrated, setLoudnessEstimatesHydrated] = useState(false);
+  const [equalizerSettings, setEqualizerSettings] = useState<EqualizerSettings>(DEFAULT_EQUALIZER_SETTINGS);
+  const [equalizerSettingsHydrated, setEqualizerSettingsHydrated] = useState(false);
+  const [userEqualizerPresets, setUserEqualizerPresets] = useState<EqualizerPreset[]>([]);
+  const [userEqualizerPresetsHydrated, setUserEqualizerPresetsHydrated] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeedSettings>(DEFAULT_PLAYBACK_SPEED);
+  const [playbackSpeedHydrated, setPlaybackSpeedHydrated] = useState(false);
+  const [syncDraft, setSyncDraft] = useState<SyncDraft | null>(null);
+  const [syncText, setSyncText] = useState("");
+  const [isSyncPreviewing, setIsSyncPreviewing] = useState(false);
+  const [lyricOffsets, setLyricOffsets] = useState<Record<string, number>>({});
+  const [lyricOffsetsHydrated, setLyricOffsetsHydrated] = useState(false);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [sleepTimerMode, setSleepTimerMode] = useState<SleepTimerMode>("minutes");
+  const [sleepTimerAmount, setSleepTimerAmount] = useState(30);
+  const [sleepClock, setSleepClock] = useState(() => Date.now());
+  const [loadedReplayGain, setLoadedReplayGain] = useState<{ trackId: string; info: ReplayGainInfo | null } | null>(
+    null
+  );
 
   const audioRef = useRef(new Audio());
   const trackObjectUrlRef = useRef<string | null>(null);
@@ -257,115 +1115,412 @@ export default function App() {
   const restoreInFlightRef = useRef(false);
   const restoredSnapshotTrackIdRef = useRef<string | null>(null);
   const latestPlaybackSnapshotRef = useRef<PlaybackSnapshot | null>(null);
+  const libraryIndexRef = useRef<LibraryIndex | null>(null);
+  const libraryIndexRunRef = useRef(0);
+  const standbyAudioRef = useRef(new Audio());
+  const standbyTrackRef = useRef<PreloadedTrack | null>(null);
+  const outgoingObjectUrlRef = useRef<string | null>(null);
+  const crossfadeTimerRef = useRef<number | null>(null);
+  const audioGraphRef = useRef<AudioGraph | null>(null);
+  const estimatingTrackIdRef = useRef<string | null>(null);
+  const sleepFadingRef = useRef(false);
+  const shuffleBagRef = useRef<ShuffleBag | null>(null);
+
+  // extensions are probed at scan time; the codec from the tags and decode errors narrow that down later
+  const libraryNodes = useMemo(() => {
+    const unsupported = new Set([...Object.keys(unsupportedCodecTrackIds), ...Object.keys(undecodableTrackIds)]);
+    return unsupported.size > 0 ? rootNodes.map((node) => withUnsupportedTracks(node, unsupported)) : rootNodes;
+  }, [rootNodes, unsupportedCodecTrackIds, undecodableTrackIds]);
+
+  const tracks = useMemo(() => libraryNodes.flatMap(flattenTracks), [libraryNodes]);
+
+  const playableTracks = useMemo(() => tracks.filter((track) => track.supported), [tracks]);
+
+  const lapsedRoots = useMemo(
+    () =>
+      libraryRoots.flatMap((root) => {
+        const access = rootAccess[root.id];
+        return access && access !== "granted" ? [{ root, access }] : [];
+      }),
+    [libraryRoots, rootAccess]
+  );
+
+  const treeRoots = useMemo(
+    () =>
+      libraryNodes.map((node) => {
+        const label = libraryRoots.find((root) => root.id === node.id)?.label;
+        return label && label !== node.name ? { ...node, name: label } : node;
+      }),
+    [libraryNodes, libraryRoots]
+  );
+
+  const tracksById = useMemo(() => new Map(tracks.map((track) => [track.id, track])), [tracks]);
+
+  const resumeSnapshotTrack = savedPlaybackSnapshot ? tracksById.get(savedPlaybackSnapshot.trackId) : undefined;
 
   const currentTrackIndex = useMemo(
-    () => tracks.findIndex((track) => track.id === currentTrackId),
-    [tracks, currentTrackId]
+    () => playableTracks.findIndex((track) => track.id === currentTrackId),
+    [playableTracks, currentTrackId]
+  );
+
+  // the active profile holds the live display settings, so every edit below is saved straight into it
+  const activeBluetoothProfile =
+    bluetoothProfiles.find((profile) => profile.id === activeBluetoothProfileId) ?? bluetoothProfiles[0] ?? null;
+  const bluetoothSettings: BluetoothDisplaySettings = activeBluetoothProfile ?? DEFAULT_BLUETOOTH_SETTINGS;
+  const {
+    fieldMapping,
+    lyricWidthScale,
+    scrollDwellStart,
+    scrollDwellEnd,
+    scrollMode,
+    widthModel,
+    metadataRefreshIntervalMs,
+    minSongMetadataSeconds,
+  } = bluetoothSettings;
+  const activeBluetoothProfileKey = activeBluetoothProfile?.id ?? null;
+  const updateBluetoothSettings = useCallback(
+    (update: (settings: BluetoothDisplaySettings) => Partial<BluetoothDisplaySettings>) => {
+      setBluetoothProfiles((prev) =>
+        prev.map((profile) => (profile.id === activeBluetoothProfileKey ? { ...profile, ...update(profile) } : profile))
+      );
+    },
+    [activeBluetoothProfileKey]
   );
 
-  const measureTextWidth = useMemo(() => createTextWidthMeasurer(), []);
+  const canvasTextWidth = useMemo(() => createTextWidthMeasurer(), []);
+
+  const measureTextWidth = useMemo(
+    () => (widthModel ? createWidthModelMeasurer(widthModel) : canvasTextWidth),
+    [widthModel, canvasTextWidth]
+  );
 
-  const lyricWidthLimitPx = useMemo(() => {
-    return measureTextWidth("M".repeat(BLUETOOTH_WIDTH_BASELINE_M)) * BLUETOOTH_WIDTH_SAFETY * lyricWidthScale;
-  }, [measureTextWidth, lyricWidthScale]);
+  // a calibrated model measures in display widths, so 1 is exactly what the head unit showed
+  const lyricWidthLimit = useMemo(() => {
+    if (widthModel) {
+      return lyricWidthScale;
+    }
+    return canvasTextWidth("M".repeat(BLUETOOTH_WIDTH_BASELINE_M)) * BLUETOOTH_WIDTH_SAFETY * lyricWidthScale;
+  }, [widthModel, canvasTextWidth, lyricWidthScale]);
 
   const scrollPortion = useMemo(() => {
     const raw = 1 - scrollDwellStart - scrollDwellEnd;
     return Math.max(MIN_SCROLL_PORTION, raw);
   }, [scrollDwellStart, scrollDwellEnd]);
 
-  const activeLyric = useMemo(() => activeLyricIndex(lyrics, currentTime * 1000), [lyrics, currentTime]);
+  const activeSyncDraft = syncDraft && syncDraft.trackId === currentTrackId ? syncDraft : null;
+
+  const lyrics = useMemo(
+    () => (activeSyncDraft && isSyncPreviewing ? syncDraftLyrics(activeSyncDraft) : trackLyrics),
+    [activeSyncDraft, isSyncPreviewing, trackLyrics]
+  );
+
+  const lyricOffsetMs = currentTrackId ? lyricOffsets[currentTrackId] ?? 0 : 0;
+  const lyricTimeMs = currentTime * 1000 - lyricOffsetMs;
+
+  const activeLyric = useMemo(() => activeLyricIndex(lyrics, lyricTimeMs), [lyrics, lyricTimeMs]);
+
+  const trackPlaybackRate = useCallback(
+    (trackId: string) => playbackSpeed.perTrack[trackId] ?? playbackSpeed.global,
+    [playbackSpeed]
+  );
+
+  const playbackRate = currentTrackId ? trackPlaybackRate(currentTrackId) : playbackSpeed.global;
+
+  const activeWord = useMemo(
+    () => (activeLyric >= 0 ? activeLyricWordIndex(lyrics[activeLyric], lyricTimeMs) : -1),
+    [lyrics, activeLyric, lyricTimeMs]
+  );
 
   const shouldUseLyricsWindow = useMemo(() => {
     if (lyrics.length === 0) {
       return false;
     }
 
-    const firstLyricSeconds = lyrics[0].timeMs / 1000;
-    const activationTimeSeconds = Math.max(firstLyricSeconds, minSongMetadataSeconds);
-    return currentTime >= activationTimeSeconds;
-  }, [lyrics, currentTime, minSongMetadataSeconds]);
-
-  const lyricWindow = useMemo(() => {
-    const previousText = activeLyric > 0 ? lyrics[activeLyric - 1].text : "";
-    const currentText = activeLyric >= 0 ? lyrics[activeLyric].text : "";
-    const nextText = activeLyric >= 0 && activeLyric < lyrics.length - 1 ? lyrics[activeLyric + 1].text : "";
-
-    const previousWindows = buildFittingWindows(previousText, lyricWidthLimitPx, measureTextWidth);
-    const currentWindows = buildFittingWindows(currentText, lyricWidthLimitPx, measureTextWidth);
-    const nextWindows = buildFittingWindows(nextText, lyricWidthLimitPx, measureTextWidth);
-
-    const currentLineStartMs = activeLyric >= 0 ? lyrics[activeLyric].timeMs : 0;
-    const currentLineEndMs = activeLyric >= 0 && activeLyric < lyrics.length - 1 ? lyrics[activeLyric + 1].timeMs : currentLineStartMs + 4000;
-    const lineDurationMs = Math.max(300, currentLineEndMs - currentLineStartMs);
-    const elapsedInLineMs = currentTime * 1000 - currentLineStartMs;
-    const normalizedLineProgress = Math.min(1, Math.max(0, elapsedInLineMs / lineDurationMs));
-    const scrollStart = scrollDwellStart;
-    const scrollEnd = Math.min(1 - MIN_SCROLL_PORTION, scrollDwellStart + scrollPortion);
-
-    let progress = 0;
-    if (normalizedLineProgress <= scrollStart) {
-      progress = 0;
-    } else if (normalizedLineProgress >= scrollEnd) {
-      progress = 1;
-    } else {
-      progress = (normalizedLineProgress - scrollStart) / (scrollEnd - scrollStart);
-    }
+    return lyricTimeMs >= lyrics[0].timeMs && currentTime >= minSongMetadataSeconds * playbackRate;
+  }, [lyrics, lyricTimeMs, currentTime, minSongMetadataSeconds, playbackRate]);
 
-    const currentWindowIndex =
-      currentWindows.length <= 1 ? 0 : Math.min(currentWindows.length - 1, Math.floor(progress * (currentWindows.length - 1)));
+  const lyricLineWindows = useMemo(
+    () => buildLineWindows(lyrics, lyricWidthLimit, measureTextWidth, scrollMode),
+    [lyrics, lyricWidthLimit, measureTextWidth, scrollMode]
+  );
 
-    return {
-      previous: previousWindows[previousWindows.length - 1] ?? "",
-      current: currentWindows[currentWindowIndex] ?? "",
-      next: nextWindows[0] ?? "",
-    };
-  }, [lyrics, activeLyric, lyricWidthLimitPx, measureTextWidth, currentTime, scrollDwellStart, scrollPortion]);
+  const lyricWindow = useMemo(
+    () => lyricWindowAt(lyrics, lyricLineWindows, lyricTimeMs, { scrollDwellStart, scrollDwellEnd, playbackRate }),
+    [lyrics, lyricLineWindows, lyricTimeMs, scrollDwellStart, scrollDwellEnd, playbackRate]
+  );
 
-  const handleDirectoryOpenChange = useCallback((directoryId: string, open: boolean) => {
-    setOpenDirectories((prev) => {
-      if (prev[directoryId] === open) {
-        return prev;
-      }
+  const headUnitWidth = useMemo(
+    () => (widthModel ? 1 : canvasTextWidth("M".repeat(BLUETOOTH_WIDTH_BASELINE_M))),
+    [widthModel, canvasTextWidth]
+  );
 
-      return {
-        ...prev,
-        [directoryId]: open,
-      };
+  const bluetoothSimulation = useMemo(() => {
+    if (!currentMetadata || lyrics.length === 0) {
+      return null;
+    }
+    const lyricsEndMs = lyricLineBounds(lyrics, lyrics.length - 1, playbackRate).endMs + lyricOffsetMs;
+    return simulateBluetoothTimeline({
+      lyrics,
+      lineWindows: lyricLineWindows,
+      metadata: currentMetadata,
+      settings: bluetoothSettings,
+      durationMs: duration > 0 ? duration * 1000 : lyricsEndMs,
+      tickMs: lyricTimelineIntervalMs(playbackRate),
+      offsetMs: lyricOffsetMs,
+      playbackRate,
     });
-  }, []);
+  }, [currentMetadata, lyrics, lyricLineWindows, bluetoothSettings, duration, lyricOffsetMs, playbackRate]);
 
-  const scanDirectory = useCallback(async (handle: FileSystemDirectoryHandle) => {
-    setIsScanning(true);
-    setScanError(null);
-    try {
-      const permission = await handle.requestPermission({ mode: "read" });
-      if (permission !== "granted") {
-        setScanError("Permission to read this directory was not granted.");
-        return;
-      }
+  const flaggedSimulationLines = useMemo(
+    () => bluetoothSimulation?.lines.filter((line) => line.issues.length > 0) ?? [],
+    [bluetoothSimulation]
+  );
 
-      const result = await scanMusicTree(handle);
-      setTree(result.root);
-      setTracks(result.flatTracks);
-      await set(ROOT_HANDLE_KEY, handle);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unable to scan this directory.";
-      setScanError(message);
-    } finally {
-      setIsScanning(false);
-    }
-  }, []);
+  const simulationDurationMs = bluetoothSimulation?.durationMs ?? 0;
+  const simulatedPublish = bluetoothSimulation ? publishAt(bluetoothSimulation, simulationPositionMs) : null;
 
-  const handlePickDirectory = useCallback(async () => {
-    if (!("showDirectoryPicker" in window)) {
+  useEffect(() => {
+    setSimulationPositionMs(0);
+    setIsSimulationPlaying(false);
+  }, [currentTrackId]);
+
+  useEffect(() => {
+    if (!isSimulationPlaying) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setSimulationPositionMs((prev) => {
+        const next = prev + SIMULATION_TICK_MS * simulationSpeed * playbackRate;
+        if (next >= simulationDurationMs) {
+          setIsSimulationPlaying(false);
+          return simulationDurationMs;
+        }
+        return next;
+      });
+    }, SIMULATION_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [isSimulationPlaying, simulationSpeed, playbackRate, simulationDurationMs]);
+
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+
+  const searchDocuments = useMemo(
+    () => buildSearchDocuments(tracks, trackTags, lyricsText),
+    [tracks, trackTags, lyricsText]
+  );
+
+  const searchResults = useMemo(
+    () => searchLibrary(searchDocuments, lyricsText, deferredSearchQuery, SEARCH_RESULT_LIMIT),
+    [searchDocuments, lyricsText, deferredSearchQuery]
+  );
+
+  const browseGroups = useMemo(
+    () => (libraryView === "folders" ? [] : buildBrowseGroups(libraryView, tracks, trackTags)),
+    [libraryView, tracks, trackTags]
+  );
+
+  const expandTrackDirectories = useCallback((track: TrackNode) => {
+    const ancestorDirectories = directoryAncestorsFromTrackPath(track.path);
+    if (ancestorDirectories.length === 0) {
+      return;
+    }
+    setOpenDirectories((prev) => {
+      const next = { ...prev };
+      for (const directoryId of ancestorDirectories) {
+        next[directoryId] = true;
+      }
+      return next;
+    });
+  }, []);
+
+  const handleRevealTrack = useCallback(
+    (track: TrackNode) => {
+      setLibraryView("folders");
+      expandTrackDirectories(track);
+      setRevealTrackId(track.id);
+    },
+    [expandTrackDirectories]
+  );
+
+  const handleDirectoryOpenChange = useCallback((directoryId: string, open: boolean) => {
+    setOpenDirectories((prev) => {
+      if (prev[directoryId] === open) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        [directoryId]: open,
+      };
+    });
+  }, []);
+
+  const indexTrackDetails = useCallback(async (index: LibraryIndex) => {
+    const runId = libraryIndexRunRef.current + 1;
+    libraryIndexRunRef.current = runId;
+
+    const pending = index.roots.flatMap((root) => flattenTracks(root.root)).filter(
+      (track) => !index.tags[track.id] || (track.lrcSource && index.lyricsText[track.id] === undefined)
+    );
+    if (pending.length === 0) {
+      setLibraryIndexProgress(null);
+      return;
+    }
+
+    let tags = { ...index.tags };
+    let indexedLyrics = { ...index.lyricsText };
+    let batchUnsupportedCodecs: Record<string, true> = {};
+    setLibraryIndexProgress({ done: 0, total: pending.length });
+    for (let position = 0; position < pending.length; position += 1) {
+      if (libraryIndexRunRef.current !== runId) {
+        return;
+      }
+
+      const track = pending[position];
+      try {
+        if (!tags[track.id]) {
+          const file = await readFileSource(track.source);
+          tags[track.id] = await parseTrackTags(file);
+          Object.assign(batchUnsupportedCodecs, unsupportedCodecs([track], tags));
+        }
+        if (track.lrcSource && indexedLyrics[track.id] === undefined) {
+          const lrcText = await (await readFileSource(track.lrcSource)).text();
+          indexedLyrics[track.id] = parseLrcDocument(lrcText)
+            .lines.map((line) => line.text)
+            .join("\n");
+        }
+      } catch {
+        // leave the track unindexed and retry on the next scan
+      }
+
+      const isLastTrack = position === pending.length - 1;
+      if ((position + 1) % LIBRARY_INDEX_BATCH_SIZE === 0 || isLastTrack) {
+        if (libraryIndexRunRef.current !== runId) {
+          return;
+        }
+        const nextIndex: LibraryIndex = { ...(libraryIndexRef.current ?? index), tags, lyricsText: indexedLyrics };
+        libraryIndexRef.current = nextIndex;
+        setTrackTags(tags);
+        setLyricsText(indexedLyrics);
+        if (Object.keys(batchUnsupportedCodecs).length > 0) {
+          const flagged = batchUnsupportedCodecs;
+          setUnsupportedCodecTrackIds((prev) => ({ ...prev, ...flagged }));
+          batchUnsupportedCodecs = {};
+        }
+        setLibraryIndexProgress(isLastTrack ? null : { done: position + 1, total: pending.length });
+        await saveLibraryIndex(nextIndex);
+        tags = { ...tags };
+        indexedLyrics = { ...indexedLyrics };
+      }
+    }
+  }, []);
+
+  // every scan notices files changed in place; reparseFiles also reads the tags and lyrics of unchanged ones again
+  const scanLibrary = useCallback(
+    async (roots: LibraryRoot[], reparseFiles = false) => {
+      setIsScanning(true);
+      setScanError(null);
+      let scanningRoot: LibraryRoot | null = null;
+      try {
+        for (const root of roots) {
+          if (!isDirectoryHandle(root.source)) {
+            continue;
+          }
+          scanningRoot = root;
+          const permission = await root.source.requestPermission({ mode: "read" });
+          setRootAccess((prev) => ({ ...prev, [root.id]: permission }));
+          if (permission !== "granted") {
+            return;
+          }
+        }
+
+        const cachedIndex = libraryIndexRef.current;
+        libraryIndexRunRef.current += 1;
+
+        const scans: Array<{ root: LibraryRoot; result: ScanResult }> = [];
+        for (const root of roots) {
+          const cachedRoot = cachedIndex?.roots.find((entry) => entry.id === root.id);
+          const previous =
+            cachedIndex && cachedRoot && (await sameDirectorySource(cachedRoot.source, root.source))
+              ? { root: cachedRoot.root, fileInfo: cachedIndex.fileInfo }
+              : undefined;
+          scanningRoot = root;
+          scans.push({ root, result: await scanMusicTree(root.source, previous, root.id) });
+        }
+        scanningRoot = null;
+
+        const fileInfo: Record<string, TrackFileInfo> = Object.assign(
+          {},
+          ...scans.map(({ result }) => result.fileInfo)
+        );
+        const flatTracks = scans.flatMap(({ result }) => result.flatTracks);
+        const playlistFiles = scans
+          .flatMap(({ result }) => result.playlists)
+          .sort((a, b) => a.path.localeCompare(b.path));
+        const index: LibraryIndex = {
+          roots: scans.map(({ root, result }) => ({ id: root.id, source: root.source, root: result.root })),
+          fileInfo,
+          tags: cachedIndex && !reparseFiles ? unchangedTrackTags(cachedIndex, fileInfo) : {},
+          lyricsText: cachedIndex && !reparseFiles ? unchangedLyricsText(cachedIndex, fileInfo) : {},
+          playlists: await readPlaylists(playlistFiles, flatTracks),
+        };
+        libraryIndexRef.current = index;
+        setLibraryRoots(roots);
+        setRootNodes(index.roots.map((root) => root.root));
+        setTrackTags(index.tags);
+        setUnsupportedCodecTrackIds(unsupportedCodecs(flatTracks, index.tags));
+        setLyricsText(index.lyricsText);
+        setPlaylists(index.playlists);
+        setRootAccess(Object.fromEntries(roots.map((root) => [root.id, "granted"])));
+        setIsLibraryLive(roots.length > 0);
+        await saveLibraryRoots(roots);
+        await saveLibraryIndex(index);
+        void indexTrackDetails(index);
+      } catch (error) {
+        const access = lostAccessState(error);
+        if (access && scanningRoot) {
+          const lostRoot = scanningRoot;
+          setRootAccess((prev) => ({ ...prev, [lostRoot.id]: access }));
+          setIsLibraryLive(false);
+          return;
+        }
+        const message = error instanceof Error ? error.message : "Unable to scan the music folders.";
+        setScanError(message);
+      } finally {
+        setIsScanning(false);
+      }
+    },
+    [indexTrackDetails]
+  );
+
+  const addLibraryRoots = useCallback(
+    async (sources: DirectorySource[]) => {
+      const nextRoots = [...libraryRoots];
+      for (const source of sources) {
+        const existing = await findAsync(nextRoots, (root) => sameDirectorySource(root.source, source));
+        if (existing) {
+          setScanError(`"${source.name}" is already in the library as "${existing.label}".`);
+          return;
+        }
+        const id = uniqueRootPath(
+          source.name,
+          nextRoots.map((root) => root.id)
+        );
+        nextRoots.push({ id, label: source.name, source });
+      }
+      await scanLibrary(nextRoots);
+    },
+    [libraryRoots, scanLibrary]
+  );
+
+  const handleAddRoot = useCallback(async () => {
+    if (!("showDirectoryPicker" in window)) {
       setScanError("This browser does not support directory picking.");
       return;
     }
 
     try {
       const handle = await window.showDirectoryPicker({ id: "bars-player-folder", mode: "read" });
-      await scanDirectory(handle);
+      await addLibraryRoots([handle]);
     } catch (error) {
       if (error instanceof DOMException && error.name === "AbortError") {
         return;
@@ -373,12 +1528,208 @@ export default function App() {
       const message = error instanceof Error ? error.message : "Could not open directory picker.";
       setScanError(message);
     }
-  }, [scanDirectory]);
+  }, [addLibraryRoots]);
+
+  const handleImportFiles = useCallback(
+    (files: File[]) => {
+      const imported = importFileList(files);
+      if (imported.length > 0) {
+        void addLibraryRoots(imported);
+      }
+    },
+    [addLibraryRoots]
+  );
+
+  // dropped items are only readable during the drop event, so entries and handles are taken before anything awaits
+  const handleLibraryDrop = useCallback(
+    (dataTransfer: DataTransfer) => {
+      const pending: Array<Promise<DirectorySource | null>> = [];
+      const looseFiles: File[] = [];
+      for (const item of Array.from(dataTransfer.items)) {
+        if (item.kind !== "file") {
+          continue;
+        }
+        const droppable = item as DataTransferItem & { getAsFileSystemHandle?: () => Promise<FileSystemHandle | null> };
+        if (droppable.getAsFileSystemHandle) {
+          pending.push(
+            droppable
+              .getAsFileSystemHandle()
+              .then((handle) => (handle?.kind === "directory" ? (handle as FileSystemDirectoryHandle) : null))
+          );
+          continue;
+        }
+        const entry = item.webkitGetAsEntry();
+        if (entry?.isDirectory) {
+          pending.push(importDroppedDirectory(entry as FileSystemDirectoryEntry));
+        } else {
+          const file = item.getAsFile();
+          if (file) {
+            looseFiles.push(file);
+          }
+        }
+      }
+
+      void (async () => {
+        try {
+          const sources = (await Promise.all(pending)).filter((source): source is DirectorySource => source !== null);
+          if (looseFiles.length > 0) {
+            sources.push(...importFileList(looseFiles));
+          }
+          if (sources.length === 0) {
+            setScanError("Drop a folder to add it to the library.");
+            return;
+          }
+          await addLibraryRoots(sources);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unable to read the dropped folder.";
+          setScanError(message);
+        }
+      })();
+    },
+    [addLibraryRoots]
+  );
+
+  const handleRenameRoot = useCallback(
+    (rootId: string) => {
+      const root = libraryRoots.find((entry) => entry.id === rootId);
+      const label = root ? window.prompt("Folder name", root.label)?.trim() : undefined;
+      if (!label) {
+        return;
+      }
+      const nextRoots = libraryRoots.map((entry) => (entry.id === rootId ? { ...entry, label } : entry));
+      setLibraryRoots(nextRoots);
+      void saveLibraryRoots(nextRoots);
+    },
+    [libraryRoots]
+  );
+
+  const handleRemoveRoot = useCallback(
+    (rootId: string) => {
+      const root = libraryRoots.find((entry) => entry.id === rootId);
+      if (!root || !window.confirm(`Remove "${root.label}" from the library? No files are deleted.`)) {
+        return;
+      }
+      void scanLibrary(libraryRoots.filter((entry) => entry.id !== rootId));
+    },
+    [libraryRoots, scanLibrary]
+  );
+
+  // requestPermission only prompts from a user gesture, so each folder gets its own reconnect button
+  const handleReconnectRoot = useCallback(
+    async (rootId: string) => {
+      const root = libraryRoots.find((entry) => entry.id === rootId);
+      if (!root) {
+        return;
+      }
+
+      try {
+        if (!isDirectoryHandle(root.source)) {
+          return;
+        }
+        const permission = await root.source.requestPermission({ mode: "read" });
+        const nextAccess = { ...rootAccess, [rootId]: permission };
+        setRootAccess(nextAccess);
+        if (libraryRoots.every((entry) => nextAccess[entry.id] === "granted")) {
+          await scanLibrary(libraryRoots);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : `Unable to reconnect to "${root.label}".`;
+        setScanError(message);
+      }
+    },
+    [libraryRoots, rootAccess, scanLibrary]
+  );
+
+  const markLibraryAccessLost = useCallback(
+    (track: TrackNode, error: unknown) => {
+      const access = lostAccessState(error);
+      const root = libraryRoots.find((entry) => track.path.startsWith(`${entry.id}/`));
+      if (access && root) {
+        setRootAccess((prev) => ({ ...prev, [root.id]: access }));
+        setIsLibraryLive(false);
+        return;
+      }
+      const message = error instanceof Error ? error.message : `Unable to open ${track.name}.`;
+      setPlaybackError(message);
+    },
+    [libraryRoots]
+  );
+
+  const releaseOutgoingAudio = useCallback(() => {
+    const outgoing = standbyAudioRef.current;
+    outgoing.pause();
+    outgoing.removeAttribute("src");
+    outgoing.load();
+    outgoing.volume = 1;
+    if (outgoingObjectUrlRef.current) {
+      URL.revokeObjectURL(outgoingObjectUrlRef.current);
+      outgoingObjectUrlRef.current = null;
+    }
+  }, []);
+
+  const stopTransition = useCallback(() => {
+    if (crossfadeTimerRef.current === null) {
+      return;
+    }
+    window.clearInterval(crossfadeTimerRef.current);
+    crossfadeTimerRef.current = null;
+    releaseOutgoingAudio();
+    audioRef.current.volume = 1;
+    if (standbyTrackRef.current) {
+      URL.revokeObjectURL(standbyTrackRef.current.url);
+      standbyTrackRef.current = null;
+    }
+    setIsCrossfading(false);
+  }, [releaseOutgoingAudio]);
+
+  const loadTrackDetails = useCallback(async (track: TrackNode, file: File) => {
+    if (artworkUrlRef.current) {
+      URL.revokeObjectURL(artworkUrlRef.current);
+      artworkUrlRef.current = null;
+    }
+
+    const metadata = await parseTrackMetadata(file, track.path);
+    if (metadata.artworkUrl) {
+      artworkUrlRef.current = metadata.artworkUrl;
+    }
+    setCurrentMetadata(metadata);
+    setLoadedReplayGain({ trackId: track.id, info: metadata.replayGain ?? null });
+
+    const sidecarLyrics = track.lrcSource ? parseLrcDocument(await (await readFileSource(track.lrcSource)).text()).lines : [];
+    if (sidecarLyrics.length > 0) {
+      setTrackLyrics(sidecarLyrics);
+      setLyricsSource("sidecar");
+    } else if (metadata.embeddedLyrics && metadata.embeddedLyrics.length > 0) {
+      setTrackLyrics(metadata.embeddedLyrics);
+      setLyricsSource("embedded");
+    } else {
+      setTrackLyrics([]);
+      setLyricsSource(null);
+    }
+  }, []);
 
   const playTrack = useCallback(
     async (track: TrackNode, options?: PlayTrackOptions) => {
+      if (!track.supported) {
+        setPlaybackError(`This browser cannot play .${track.extension} files (${track.name}).`);
+        return;
+      }
+      if (!isLibraryLive) {
+        setPlaybackError("Reconnect to the music folders to play tracks from the library.");
+        return;
+      }
+
+      let file: File;
+      try {
+        file = await readFileSource(track.source);
+      } catch (error) {
+        markLibraryAccessLost(track, error);
+        return;
+      }
+
+      setPlaybackError(null);
+      stopTransition();
       const audio = audioRef.current;
-      const file = await track.fileHandle.getFile();
       const autoplay = options?.autoplay ?? true;
       const startTimeSeconds = Math.max(0, options?.startTimeSeconds ?? 0);
       const expandDirectory = options?.expandDirectory ?? false;
@@ -394,16 +1745,7 @@ export default function App() {
       setDuration(0);
 
       if (expandDirectory) {
-        const ancestorDirectories = directoryAncestorsFromTrackPath(track.path);
-        if (ancestorDirectories.length > 0) {
-          setOpenDirectories((prev) => {
-            const next = { ...prev };
-            for (const directoryId of ancestorDirectories) {
-              next[directoryId] = true;
-            }
-            return next;
-          });
-        }
+        expandTrackDirectories(track);
       }
 
       audio.src = audioUrl;
@@ -421,71 +1763,749 @@ export default function App() {
         setIsPlaying(false);
       }
 
-      if (artworkUrlRef.current) {
-        URL.revokeObjectURL(artworkUrlRef.current);
-        artworkUrlRef.current = null;
+      await loadTrackDetails(track, file);
+    },
+    [isLibraryLive, markLibraryAccessLost, stopTransition, expandTrackDirectories, loadTrackDetails]
+  );
+
+  const promoteStandby = useCallback(
+    (plan: NextTrackPlan, preloaded: PreloadedTrack) => {
+      const outgoing = audioRef.current;
+      const incoming = standbyAudioRef.current;
+      audioRef.current = incoming;
+      standbyAudioRef.current = outgoing;
+      outgoingObjectUrlRef.current = trackObjectUrlRef.current;
+      trackObjectUrlRef.current = preloaded.url;
+      standbyTrackRef.current = null;
+
+      plan.commit();
+      setAudioGeneration((prev) => prev + 1);
+      setPlaybackError(null);
+      setCurrentTrackId(preloaded.track.id);
+      setCurrentTime(incoming.currentTime || 0);
+      setDuration(incoming.duration || 0);
+      setIsPlaying(true);
+      expandTrackDirectories(preloaded.track);
+      void loadTrackDetails(preloaded.track, preloaded.file);
+    },
+    [expandTrackDirectories, loadTrackDetails]
+  );
+
+  const isTrackPlayable = useCallback((trackId: string) => tracksById.get(trackId)?.supported ?? false, [tracksById]);
+
+  const replayGainInfoFor = useCallback(
+    (trackId: string): ReplayGainInfo | undefined => {
+      const loaded = loadedReplayGain?.trackId === trackId ? loadedReplayGain.info : undefined;
+      const tagged = loaded ?? trackTags[trackId]?.replayGain;
+      if (tagged) {
+        return tagged;
       }
 
-      const metadata = await parseTrackMetadata(file, track.path);
-      if (metadata.artworkUrl) {
-        artworkUrlRef.current = metadata.artworkUrl;
-      }
-      setCurrentMetadata(metadata);
+      const estimate = loudnessEstimates[trackId];
+      const fileInfo = libraryIndexRef.current?.fileInfo[trackId];
+      if (
+        !replayGainSettings.estimateMissing ||
+        !estimate ||
+        (fileInfo && (fileInfo.size !== estimate.size || fileInfo.lastModified !== estimate.lastModified))
+      ) {
+        return undefined;
+      }
+      return loudnessEstimateInfo(estimate);
+    },
+    [loadedReplayGain, trackTags, loudnessEstimates, replayGainSettings.estimateMissing]
+  );
+
+  const trackGainMultiplier = useCallback(
+    (trackId: string) => replayGainMultiplier(replayGainInfoFor(trackId), replayGainSettings),
+    [replayGainInfoFor, replayGainSettings]
+  );
+
+  const ensureAudioGraph = useCallback(() => {
+    if (!audioGraphRef.current) {
+      try {
+        audioGraphRef.current = createAudioGraph([audioRef.current, standbyAudioRef.current]);
+      } catch {
+        return null;
+      }
+    }
+    void audioGraphRef.current.context.resume();
+    return audioGraphRef.current;
+  }, []);
+
+  const trackPlan = useCallback((track: TrackNode, shuffleBag?: ShuffleBag): NextTrackPlan => {
+    return {
+      track,
+      commit: () => {
+        if (shuffleBag) {
+          shuffleBagRef.current = shuffleBag;
+        }
+        setPlaybackHistory((prev) => pushHistory(prev, { trackId: track.id, queuePosition: -1 }));
+      },
+    };
+  }, []);
+
+  const queuePlan = useCallback(
+    (queue: PlayQueue, shuffleBag?: ShuffleBag): NextTrackPlan | null => {
+      const entry = currentQueueEntry(queue);
+      const track = entry ? tracksById.get(entry.trackId) : undefined;
+      if (!track) {
+        return null;
+      }
+      return {
+        track,
+        commit: () => {
+          if (shuffleBag) {
+            shuffleBagRef.current = shuffleBag;
+          }
+          setPlayQueue(queue);
+          setPlaybackHistory((prev) => pushHistory(prev, { trackId: track.id, queuePosition: queue.position }));
+        },
+      };
+    },
+    [tracksById]
+  );
+
+  const historyPlan = useCallback(
+    (history: PlaybackHistory): NextTrackPlan | null => {
+      const entry = history.entries[history.cursor];
+      const track = entry ? tracksById.get(entry.trackId) : undefined;
+      if (!track || !track.supported) {
+        return null;
+      }
+      return {
+        track,
+        commit: () => {
+          setPlaybackHistory(history);
+          if (entry.queuePosition >= 0) {
+            setPlayQueue((prev) =>
+              prev.entries[entry.queuePosition]?.trackId === entry.trackId
+                ? jumpToQueueEntry(prev, entry.queuePosition)
+                : prev
+            );
+          }
+        },
+      };
+    },
+    [tracksById]
+  );
+
+  const runPlan = useCallback(
+    (plan: NextTrackPlan | null, options?: PlayTrackOptions) => {
+      if (!plan) {
+        return false;
+      }
+      plan.commit();
+      void playTrack(plan.track, options);
+      return true;
+    },
+    [playTrack]
+  );
+
+  const playAndRecord = useCallback(
+    (track: TrackNode, queuePosition: number, options?: PlayTrackOptions) => {
+      setPlaybackHistory((prev) => pushHistory(prev, { trackId: track.id, queuePosition }));
+      return playTrack(track, options);
+    },
+    [playTrack]
+  );
+
+  const playFromQueue = useCallback(
+    (queue: PlayQueue, options?: PlayTrackOptions) => {
+      runPlan(queuePlan(queue), options);
+    },
+    [runPlan, queuePlan]
+  );
+
+  const planPrevious = useCallback((): NextTrackPlan | null => {
+    const previousHistory = stepHistory(playbackHistory, -1);
+    const fromHistory = previousHistory ? historyPlan(previousHistory) : null;
+    if (fromHistory) {
+      return fromHistory;
+    }
+
+    const queueEntry = currentQueueEntry(playQueue);
+    if (queueEntry && queueEntry.trackId === currentTrackId) {
+      const previousQueue = stepQueue(playQueue, -1, isTrackPlayable);
+      if (previousQueue) {
+        return queuePlan(previousQueue);
+      }
+    }
+
+    if (playableTracks.length === 0) {
+      return null;
+    }
+
+    const prevIndex = currentTrackIndex <= 0 ? playableTracks.length - 1 : currentTrackIndex - 1;
+    return trackPlan(playableTracks[prevIndex]);
+  }, [
+    playbackHistory,
+    historyPlan,
+    playQueue,
+    currentTrackId,
+    isTrackPlayable,
+    queuePlan,
+    playableTracks,
+    currentTrackIndex,
+    trackPlan,
+  ]);
+
+  const planNext = useCallback((): NextTrackPlan | null => {
+    if (playbackModes.shuffle !== "off") {
+      const forwardHistory = stepHistory(playbackHistory, 1);
+      const fromHistory = forwardHistory ? historyPlan(forwardHistory) : null;
+      if (fromHistory) {
+        return fromHistory;
+      }
+    }
+
+    if (playbackModes.shuffle !== "queue") {
+      const nextQueue = stepQueue(playQueue, 1, isTrackPlayable);
+      if (nextQueue) {
+        return queuePlan(nextQueue);
+      }
+    }
+
+    const refill = playbackModes.repeat !== "off";
+
+    if (playbackModes.shuffle === "queue") {
+      const pool = playQueue.entries.filter((entry) => isTrackPlayable(entry.trackId)).map((entry) => entry.key);
+      const currentKey = currentQueueEntry(playQueue)?.key ?? null;
+      const drawn = drawFromShuffleBag(shuffleBagRef.current, "queue", pool, currentKey, refill);
+      if (!drawn) {
+        return null;
+      }
+      const index = playQueue.entries.findIndex((entry) => entry.key === drawn.id);
+      return queuePlan(jumpToQueueEntry(playQueue, index), drawn.bag);
+    }
+
+    if (playbackModes.shuffle !== "off") {
+      const currentTrack = currentTrackId ? tracksById.get(currentTrackId) : undefined;
+      const folderPath = currentTrack ? parentDirectoryPath(currentTrack.path) : "";
+      const scopeKey = playbackModes.shuffle === "folder" ? `folder:${folderPath}` : "library";
+      const pool = (
+        playbackModes.shuffle === "folder"
+          ? playableTracks.filter((track) => parentDirectoryPath(track.path) === folderPath)
+          : playableTracks
+      ).map((track) => track.id);
+      const drawn = drawFromShuffleBag(shuffleBagRef.current, scopeKey, pool, currentTrackId, refill);
+      const track = drawn ? tracksById.get(drawn.id) : undefined;
+      return drawn && track ? trackPlan(track, drawn.bag) : null;
+    }
+
+    if (playableTracks.length === 0) {
+      return null;
+    }
+
+    const isLastTrack = currentTrackIndex >= playableTracks.length - 1;
+    if (isLastTrack && playbackModes.repeat === "off") {
+      return null;
+    }
+
+    const nextIndex = isLastTrack ? 0 : currentTrackIndex + 1;
+    return trackPlan(playableTracks[nextIndex]);
+  }, [
+    playbackModes,
+    playbackHistory,
+    historyPlan,
+    playQueue,
+    isTrackPlayable,
+    queuePlan,
+    currentTrackId,
+    tracksById,
+    playableTracks,
+    currentTrackIndex,
+    trackPlan,
+  ]);
+
+  const upcomingPlan = useMemo(() => planNext(), [planNext]);
+
+  const playPrevious = useCallback(() => {
+    runPlan(planPrevious());
+  }, [runPlan, planPrevious]);
+
+  const advance = useCallback(
+    (options?: AdvanceOptions) => {
+      const audio = audioRef.current;
+
+      if (options?.automatic && playbackModes.repeat === "one" && currentTrackId) {
+        audio.currentTime = 0;
+        void audio.play();
+        return;
+      }
+
+      if (!upcomingPlan) {
+        return;
+      }
+
+      const preloaded = standbyTrackRef.current;
+      if (options?.automatic && playbackTransition.gapless && preloaded && preloaded.track.id === upcomingPlan.track.id) {
+        const incoming = standbyAudioRef.current;
+        incoming.volume = 1;
+        void incoming.play();
+        promoteStandby(upcomingPlan, preloaded);
+        releaseOutgoingAudio();
+        return;
+      }
+
+      runPlan(upcomingPlan, { expandDirectory: options?.expandDirectory });
+    },
+    [playbackModes, currentTrackId, upcomingPlan, playbackTransition.gapless, promoteStandby, releaseOutgoingAudio, runPlan]
+  );
+
+  const startCrossfade = useCallback(
+    (plan: NextTrackPlan, preloaded: PreloadedTrack, fadeSeconds: number) => {
+      const outgoing = audioRef.current;
+      const incoming = standbyAudioRef.current;
+      const fadeMs = Math.max(100, fadeSeconds * 1000);
+      const startedAt = performance.now();
+      let promoted = false;
+
+      incoming.volume = 0;
+      incoming.currentTime = 0;
+      void incoming.play();
+      setIsCrossfading(true);
+
+      crossfadeTimerRef.current = window.setInterval(() => {
+        const progress = Math.min(1, (performance.now() - startedAt) / fadeMs);
+        outgoing.volume = 1 - progress;
+        incoming.volume = progress;
+
+        if (!promoted && progress >= 0.5) {
+          promoted = true;
+          promoteStandby(plan, preloaded);
+        }
+
+        if (progress >= 1) {
+          if (crossfadeTimerRef.current !== null) {
+            window.clearInterval(crossfadeTimerRef.current);
+            crossfadeTimerRef.current = null;
+          }
+          releaseOutgoingAudio();
+          setIsCrossfading(false);
+        }
+      }, CROSSFADE_STEP_MS);
+    },
+    [promoteStandby, releaseOutgoingAudio]
+  );
+
+  // starts the next track just before the current one runs out and lets the outgoing element play its last
+  // few milliseconds, so the handoff does not wait for the ended event
+  const startGaplessHandoff = useCallback(
+    (plan: NextTrackPlan, preloaded: PreloadedTrack) => {
+      const outgoing = audioRef.current;
+      const incoming = standbyAudioRef.current;
+
+      incoming.volume = 1;
+      incoming.currentTime = 0;
+      void incoming.play();
+      setIsCrossfading(true);
+      promoteStandby(plan, preloaded);
+
+      const release = () => {
+        outgoing.removeEventListener("ended", release);
+        if (crossfadeTimerRef.current === null) {
+          return;
+        }
+        window.clearTimeout(crossfadeTimerRef.current);
+        crossfadeTimerRef.current = null;
+        releaseOutgoingAudio();
+        setIsCrossfading(false);
+      };
+      outgoing.addEventListener("ended", release);
+      crossfadeTimerRef.current = window.setTimeout(release, GAPLESS_RELEASE_FALLBACK_MS);
+    },
+    [promoteStandby, releaseOutgoingAudio]
+  );
+
+  const playNext = useCallback(() => advance(), [advance]);
+
+  const playNextAutoExpand = useCallback(() => advance({ automatic: true, expandDirectory: true }), [advance]);
+
+  const handlePlaybackSpeedChange = useCallback(
+    (speed: number) => {
+      setPlaybackSpeed((prev) =>
+        currentTrackId && prev.perTrack[currentTrackId] !== undefined
+          ? { ...prev, perTrack: { ...prev.perTrack, [currentTrackId]: speed } }
+          : { ...prev, global: speed }
+      );
+    },
+    [currentTrackId]
+  );
+
+  const handleTrackSpeedOverride = useCallback(
+    (enabled: boolean) => {
+      if (!currentTrackId) {
+        return;
+      }
+      setPlaybackSpeed((prev) => {
+        const perTrack = { ...prev.perTrack };
+        if (enabled) {
+          perTrack[currentTrackId] = prev.global;
+        } else {
+          delete perTrack[currentTrackId];
+        }
+        return { ...prev, perTrack };
+      });
+    },
+    [currentTrackId]
+  );
+
+  const cancelSleepTimer = useCallback(() => {
+    if (sleepFadingRef.current && audioGraphRef.current) {
+      rampOutputGain(audioGraphRef.current, 1, 0.05);
+    }
+    sleepFadingRef.current = false;
+    setSleepTimer(null);
+  }, []);
+
+  const handleStartSleepTimer = useCallback(() => {
+    const now = Date.now();
+    ensureAudioGraph();
+    setSleepClock(now);
+    setSleepTimer(startSleepTimer(sleepTimerMode, sleepTimerAmount, now));
+  }, [ensureAudioGraph, sleepTimerMode, sleepTimerAmount]);
+
+  const handleTrackEnded = useCallback(() => {
+    if (sleepTimer) {
+      const nextTimer = sleepTimerAfterTrackEnded(sleepTimer);
+      if (!nextTimer) {
+        cancelSleepTimer();
+        return;
+      }
+      setSleepTimer(nextTimer);
+    }
+    playNextAutoExpand();
+  }, [sleepTimer, cancelSleepTimer, playNextAutoExpand]);
+
+  const handlePlayAll = useCallback(
+    (folderTracks: TrackNode[]) => {
+      const trackIds = folderTracks.filter((track) => track.supported).map((track) => track.id);
+      if (trackIds.length > 0) {
+        playFromQueue(replaceQueue(trackIds));
+      }
+    },
+    [playFromQueue]
+  );
+
+  const handlePlayNextInQueue = useCallback((queuedTracks: TrackNode[]) => {
+    const trackIds = queuedTracks.filter((track) => track.supported).map((track) => track.id);
+    setPlayQueue((prev) => enqueueNext(prev, trackIds));
+  }, []);
+
+  const requestLibraryWriteAccess = useCallback(async (handle: FileSystemDirectoryHandle) => {
+    const permission = await handle.requestPermission({ mode: "readwrite" });
+    if (permission !== "granted") {
+      setScanError("Permission to write to the music folder was not granted.");
+      return false;
+    }
+    return true;
+  }, []);
+
+  const handleSaveQueueAsPlaylist = useCallback(async () => {
+    const index = libraryIndexRef.current;
+    const queuedTracks = playQueue.entries
+      .map((entry) => tracksById.get(entry.trackId))
+      .filter((track): track is TrackNode => Boolean(track));
+    const tracksInRoot = (root: LibraryRootIndex) =>
+      queuedTracks.filter((track) => track.path.startsWith(`${root.id}/`));
+    // the playlist goes into the writable music folder holding most of the queue; tracks in other folders are left
+    // out, since nothing tells us where those folders sit on disk relative to it
+    const target = index?.roots
+      .filter((root) => isDirectoryHandle(root.source))
+      .reduce<LibraryRootIndex | undefined>(
+        (best, root) => (!best || tracksInRoot(root).length > tracksInRoot(best).length ? root : best),
+        undefined
+      );
+    if (!index || !target || !isDirectoryHandle(target.source)) {
+      setScanError(READ_ONLY_LIBRARY_MESSAGE);
+      return;
+    }
+    const playlistTracks = tracksInRoot(target);
+    const targetLabel = libraryRoots.find((root) => root.id === target.id)?.label ?? target.root.name;
+    if (playlistTracks.length === 0) {
+      setScanError(`None of the queued tracks are in "${targetLabel}", the music folder playlists can be saved to.`);
+      return;
+    }
+
+    try {
+      if (!(await requestLibraryWriteAccess(target.source))) {
+        return;
+      }
+
+      const otherRootCount = queuedTracks.length - playlistTracks.length;
+      if (
+        otherRootCount > 0 &&
+        !window.confirm(
+          `${otherRootCount} queued track${otherRootCount === 1 ? " is" : "s are"} outside "${targetLabel}" ` +
+            "and will be left out of the playlist. Save the rest?"
+        )
+      ) {
+        return;
+      }
+
+      const name = window.prompt("Playlist name", "Queue")?.trim();
+      if (!name) {
+        return;
+      }
+
+      const titles = new Map(
+        playlistTracks
+          .filter((track) => trackTags[track.id])
+          .map((track) => {
+            const { artist, title } = trackTags[track.id];
+            return [track.id, artist ? `${artist} - ${title}` : title];
+          })
+      );
+      const fileName = `${name.replace(/[\\/:*?"<>|]/g, "_")}.m3u8`;
+      const fileHandle = await target.source.getFileHandle(fileName, { create: true });
+      const writable = await fileHandle.createWritable();
+      await writable.write(buildM3u8(playlistTracks, target.root.path, titles));
+      await writable.close();
+
+      const playlistPath = `${target.root.path}/${fileName}`;
+      const saved: ResolvedPlaylist = {
+        id: playlistPath,
+        name: fileName.replace(/\.m3u8$/, ""),
+        path: playlistPath,
+        trackIds: playlistTracks.map((track) => track.id),
+        unresolved: [],
+      };
+      const nextPlaylists = [...index.playlists.filter((playlist) => playlist.id !== saved.id), saved].sort((a, b) =>
+        a.path.localeCompare(b.path)
+      );
+      const nextIndex: LibraryIndex = { ...(libraryIndexRef.current ?? index), playlists: nextPlaylists };
+      libraryIndexRef.current = nextIndex;
+      setPlaylists(nextPlaylists);
+      await saveLibraryIndex(nextIndex);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to save the playlist.";
+      setScanError(message);
+    }
+  }, [requestLibraryWriteAccess, playQueue, tracksById, trackTags, libraryRoots]);
+
+  const handleLyricOffsetNudge = useCallback(
+    (deltaMs: number) => {
+      if (!currentTrackId) {
+        return;
+      }
+      setLyricOffsets((prev) => {
+        const next = { ...prev };
+        const offsetMs = (prev[currentTrackId] ?? 0) + deltaMs;
+        if (offsetMs === 0) {
+          delete next[currentTrackId];
+        } else {
+          next[currentTrackId] = offsetMs;
+        }
+        return next;
+      });
+    },
+    [currentTrackId]
+  );
+
+  const handleSaveLyricOffset = useCallback(
+    async (method: "tag" | "timestamps") => {
+      const index = libraryIndexRef.current;
+      const track = currentTrackId ? tracksById.get(currentTrackId) : undefined;
+      const rootHandle = index && track ? rootHandleForPath(index, track.path) : undefined;
+      if (!track?.lrcSource || lyricOffsetMs === 0) {
+        return;
+      }
+      const lrcHandle = fileHandleOf(track.lrcSource);
+      if (!rootHandle || !lrcHandle) {
+        setScanError(READ_ONLY_LIBRARY_MESSAGE);
+        return;
+      }
+
+      try {
+        if (!(await requestLibraryWriteAccess(rootHandle))) {
+          return;
+        }
+
+        const text = await (await lrcHandle.getFile()).text();
+        const nextText =
+          method === "tag"
+            ? setLrcOffsetTag(text, parseLrcDocument(text).offsetMs - lyricOffsetMs)
+            : shiftLrcTimestamps(text, lyricOffsetMs);
+        const writable = await lrcHandle.createWritable();
+        await writable.write(nextText);
+        await writable.close();
 
-      if (track.lrcHandle) {
-        const lrcFile = await track.lrcHandle.getFile();
-        const lrcText = await lrcFile.text();
-        setLyrics(parseLrc(lrcText));
-      } else {
-        setLyrics([]);
+        setLyricOffsets((prev) => {
+          const next = { ...prev };
+          delete next[track.id];
+          return next;
+        });
+        if (lyricsSource === "sidecar") {
+          setTrackLyrics(parseLrcDocument(nextText).lines);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to save the lyric offset.";
+        setScanError(message);
       }
     },
-    []
+    [currentTrackId, tracksById, lyricOffsetMs, requestLibraryWriteAccess, lyricsSource]
   );
 
-  const playPrevious = useCallback(() => {
-    if (tracks.length === 0) {
+  const handleStartSync = useCallback(() => {
+    if (!currentTrackId) {
       return;
     }
+    const draft = createSyncDraft(currentTrackId, syncText);
+    if (draft.lines.length === 0) {
+      return;
+    }
+    setSyncDraft(draft);
+    setIsSyncPreviewing(false);
+  }, [currentTrackId, syncText]);
+
+  const handleLyricSeek = useCallback(
+    (line: LyricLine) => {
+      const seekSeconds = Math.max(0, line.timeMs + lyricOffsetMs) / 1000;
+      audioRef.current.currentTime = seekSeconds;
+      setCurrentTime(seekSeconds);
+    },
+    [lyricOffsetMs]
+  );
+
+  // stamps live on the lyric timeline, the same one the preview and the saved file are played back on
+  const handleSyncStamp = useCallback(() => {
+    const timeMs = audioRef.current.currentTime * 1000 - lyricOffsetMs;
+    setSyncDraft((prev) => (prev ? stampCurrentLine(prev, timeMs) : prev));
+  }, [lyricOffsetMs]);
 
-    const prevIndex = currentTrackIndex <= 0 ? tracks.length - 1 : currentTrackIndex - 1;
-    void playTrack(tracks[prevIndex]);
-  }, [tracks, currentTrackIndex, playTrack]);
+  const handleSyncSelectLine = useCallback(
+    (index: number) => {
+      const stamp = activeSyncDraft?.stamps[index];
+      if (stamp !== null && stamp !== undefined) {
+        const seekSeconds = Math.max(0, stamp + lyricOffsetMs - SYNC_REWIND_MS) / 1000;
+        audioRef.current.currentTime = seekSeconds;
+        setCurrentTime(seekSeconds);
+      }
+      setSyncDraft((prev) => (prev ? moveSyncCursor(prev, index) : prev));
+    },
+    [activeSyncDraft, lyricOffsetMs]
+  );
 
-  const playNext = useCallback(() => {
-    if (tracks.length === 0) {
+  const handleSaveSync = useCallback(async () => {
+    const index = libraryIndexRef.current;
+    const track = activeSyncDraft ? tracksById.get(activeSyncDraft.trackId) : undefined;
+    const rootHandle = index && track ? rootHandleForPath(index, track.path) : undefined;
+    if (!track || !activeSyncDraft) {
+      return;
+    }
+    if (!index || !rootHandle) {
+      setScanError(READ_ONLY_LIBRARY_MESSAGE);
       return;
     }
 
-    const nextIndex = currentTrackIndex >= tracks.length - 1 ? 0 : currentTrackIndex + 1;
-    void playTrack(tracks[nextIndex]);
-  }, [tracks, currentTrackIndex, playTrack]);
+    try {
+      if (!(await requestLibraryWriteAccess(rootHandle))) {
+        return;
+      }
 
-  const playNextAutoExpand = useCallback(() => {
-    if (tracks.length === 0) {
-      return;
+      const directory = await parentDirectoryHandle(rootHandle, track.path);
+      const lrcHandle = await directory.getFileHandle(sidecarLrcName(track.name), { create: true });
+      const lrcText = syncDraftToLrc(activeSyncDraft, {
+        title: currentMetadata?.title,
+        artist: currentMetadata?.artist,
+        album: currentMetadata?.album,
+      });
+      const writable = await lrcHandle.createWritable();
+      await writable.write(lrcText);
+      await writable.close();
+
+      setTrackLyrics(syncDraftLyrics(activeSyncDraft));
+      setLyricsSource("sidecar");
+      setSyncDraft(null);
+      setSyncText("");
+      setIsSyncPreviewing(false);
+
+      // attach the sidecar to the track in place instead of rescanning the library for one file
+      const latestIndex = libraryIndexRef.current ?? index;
+      const info = latestIndex.fileInfo[track.id];
+      const { lastModified } = await lrcHandle.getFile();
+      const nextIndex: LibraryIndex = {
+        ...latestIndex,
+        roots: latestIndex.roots.map((root) => ({ ...root, root: withTrackLyrics(root.root, track.id, lrcHandle) })),
+        fileInfo: info
+          ? { ...latestIndex.fileInfo, [track.id]: { ...info, lyricsLastModified: lastModified } }
+          : latestIndex.fileInfo,
+        lyricsText: {
+          ...latestIndex.lyricsText,
+          [track.id]: parseLrcDocument(lrcText)
+            .lines.map((line) => line.text)
+            .join("\n"),
+        },
+      };
+      libraryIndexRef.current = nextIndex;
+      setRootNodes(nextIndex.roots.map((root) => root.root));
+      setLyricsText(nextIndex.lyricsText);
+      await saveLibraryIndex(nextIndex);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to save the .lrc file.";
+      setScanError(message);
     }
+  }, [activeSyncDraft, tracksById, requestLibraryWriteAccess, currentMetadata]);
 
-    const nextIndex = currentTrackIndex >= tracks.length - 1 ? 0 : currentTrackIndex + 1;
-    void playTrack(tracks[nextIndex], { expandDirectory: true });
-  }, [tracks, currentTrackIndex, playTrack]);
+  const handleAddToQueue = useCallback((queuedTracks: TrackNode[]) => {
+    const trackIds = queuedTracks.filter((track) => track.supported).map((track) => track.id);
+    setPlayQueue((prev) => enqueue(prev, trackIds));
+  }, []);
 
   useEffect(() => {
     const audio = audioRef.current;
-    const handleLoadedMetadata = () => setDuration(audio.duration || 0);
-    const handleDurationChange = () => setDuration(audio.duration || 0);
-    const handlePlay = () => setIsPlaying(true);
+    const handleLoadedMetadata = () => {
+      if (audio === audioRef.current) {
+        setDuration(audio.duration || 0);
+      }
+    };
+    const handleDurationChange = handleLoadedMetadata;
+    const handlePlay = () => {
+      if (audio === audioRef.current) {
+        void audioGraphRef.current?.context.resume();
+        setIsPlaying(true);
+      }
+    };
     const handlePause = () => {
+      if (audio !== audioRef.current) {
+        return;
+      }
+      stopTransition();
       setIsPlaying(false);
       setCurrentTime(audio.currentTime || 0);
     };
-    const handleEnded = () => playNextAutoExpand();
+    const handleEnded = () => {
+      // a running crossfade promotes the next track itself
+      if (audio === audioRef.current && crossfadeTimerRef.current === null) {
+        handleTrackEnded();
+      }
+    };
+    const handleError = () => {
+      if (audio !== audioRef.current) {
+        return;
+      }
+      // a revoked object url or an unreadable file also reports an unsupported source, so only a decode error or a
+      // codec the browser rejects marks the track for the rest of the session
+      const track = currentTrackId ? tracksById.get(currentTrackId) : undefined;
+      const undecodable =
+        audio.error?.code === MediaError.MEDIA_ERR_DECODE ||
+        (audio.error?.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED &&
+          track !== undefined &&
+          !canPlayCodec(track.extension, trackTags[track.id]?.codec));
+      if (undecodable && currentTrackId) {
+        setPlaybackError("This browser could not decode the current track.");
+        setUndecodableTrackIds((prev) => ({ ...prev, [currentTrackId]: true }));
+      } else if (audio.error) {
+        setPlaybackError("Unable to play the current track.");
+      }
+    };
 
     audio.addEventListener("loadedmetadata", handleLoadedMetadata);
     audio.addEventListener("durationchange", handleDurationChange);
     audio.addEventListener("play", handlePlay);
     audio.addEventListener("pause", handlePause);
     audio.addEventListener("ended", handleEnded);
+    audio.addEventListener("error", handleError);
 
     return () => {
       audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
@@ -493,8 +2513,269 @@ export default function App() {
       audio.removeEventListener("play", handlePlay);
       audio.removeEventListener("pause", handlePause);
       audio.removeEventListener("ended", handleEnded);
+      audio.removeEventListener("error", handleError);
+    };
+  }, [handleTrackEnded, stopTransition, audioGeneration, currentTrackId, tracksById, trackTags]);
+
+  useEffect(() => {
+    if (!sleepTimer) {
+      return;
+    }
+
+    const refreshClock = () => setSleepClock(Date.now());
+    const timer = window.setInterval(refreshClock, SLEEP_TICK_MS);
+    document.addEventListener("visibilitychange", refreshClock);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", refreshClock);
+    };
+  }, [sleepTimer]);
+
+  const trackRemainingMs = duration > 0 ? ((duration - currentTime) * 1000) / playbackRate : Number.POSITIVE_INFINITY;
+  const sleepRemaining = sleepTimer ? sleepRemainingMs(sleepTimer, sleepClock, trackRemainingMs) : null;
+
+  useEffect(() => {
+    if (!sleepTimer || sleepRemaining === null) {
+      return;
+    }
+
+    if (sleepTimer.mode === "minutes" && sleepRemaining <= 0) {
+      audioRef.current.pause();
+      cancelSleepTimer();
+      return;
+    }
+
+    const fadeMs = SLEEP_FADE_SECONDS * 1000;
+    const graph = audioGraphRef.current;
+    if (sleepFadingRef.current && sleepRemaining > fadeMs && graph) {
+      // playback was moved back out of the fade window
+      sleepFadingRef.current = false;
+      rampOutputGain(graph, 1, 0.05);
+    } else if (!sleepFadingRef.current && isPlaying && sleepRemaining <= fadeMs) {
+      const fadeGraph = ensureAudioGraph();
+      if (fadeGraph) {
+        sleepFadingRef.current = true;
+        rampOutputGain(fadeGraph, 0, sleepRemaining / 1000);
+      }
+    }
+  }, [sleepTimer, sleepRemaining, isPlaying, cancelSleepTimer, ensureAudioGraph]);
+
+  useEffect(() => {
+    const wantsPreload = playbackTransition.gapless || playbackTransition.crossfadeSeconds > 0;
+    const nextTrack = upcomingPlan?.track;
+    if (isCrossfading) {
+      return;
+    }
+
+    if (!wantsPreload || !nextTrack || !currentTrackId || playbackModes.repeat === "one") {
+      const preloaded = standbyTrackRef.current;
+      if (preloaded) {
+        standbyTrackRef.current = null;
+        standbyAudioRef.current.removeAttribute("src");
+        standbyAudioRef.current.load();
+        URL.revokeObjectURL(preloaded.url);
+      }
+      return;
+    }
+
+    if (standbyTrackRef.current?.track.id === nextTrack.id) {
+      return;
+    }
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const file = await readFileSource(nextTrack.source);
+        if (cancelled) {
+          return;
+        }
+        const previous = standbyTrackRef.current;
+        const url = URL.createObjectURL(file);
+        const standby = standbyAudioRef.current;
+        standby.preload = "auto";
+        standby.preservesPitch = true;
+        standby.defaultPlaybackRate = trackPlaybackRate(nextTrack.id);
+        standby.src = url;
+        standby.load();
+        standbyTrackRef.current = { track: nextTrack, file, url };
+        if (audioGraphRef.current) {
+          setElementGain(audioGraphRef.current, standby, trackGainMultiplier(nextTrack.id));
+        }
+        if (previous) {
+          URL.revokeObjectURL(previous.url);
+        }
+      } catch {
+        // the track is loaded normally when playback reaches it
+      }
+    })();
+
+    return () => {
+      cancelled = true;
     };
-  }, [playNextAutoExpand]);
+  }, [
+    playbackTransition,
+    upcomingPlan,
+    isCrossfading,
+    currentTrackId,
+    playbackModes.repeat,
+    trackGainMultiplier,
+    trackPlaybackRate,
+  ]);
+
+  useEffect(() => {
+    if (!currentTrackId || (replayGainSettings.mode === "off" && !audioGraphRef.current)) {
+      return;
+    }
+    const graph = ensureAudioGraph();
+    if (!graph) {
+      return;
+    }
+
+    setElementGain(graph, audioRef.current, trackGainMultiplier(currentTrackId));
+    const preloaded = standbyTrackRef.current;
+    if (preloaded && !isCrossfading) {
+      setElementGain(graph, standbyAudioRef.current, trackGainMultiplier(preloaded.track.id));
+    }
+  }, [currentTrackId, replayGainSettings.mode, ensureAudioGraph, trackGainMultiplier, isCrossfading, audioGeneration]);
+
+  useEffect(() => {
+    if (equalizerSettings.bypassed && !audioGraphRef.current) {
+      return;
+    }
+    const graph = ensureAudioGraph();
+    if (graph) {
+      setEqualizer(graph, equalizerSettings.bypassed ? null : equalizerSettings.gains);
+    }
+  }, [equalizerSettings, ensureAudioGraph]);
+
+  useEffect(() => {
+    if (
+      !loudnessEstimatesHydrated ||
+      !replayGainSettings.estimateMissing ||
+      replayGainSettings.mode === "off" ||
+      !currentTrackId ||
+      loadedReplayGain?.trackId !== currentTrackId ||
+      loadedReplayGain.info ||
+      estimatingTrackIdRef.current === currentTrackId
+    ) {
+      return;
+    }
+
+    const track = tracksById.get(currentTrackId);
+    if (!track) {
+      return;
+    }
+    const cached = loudnessEstimates[track.id];
+
+    estimatingTrackIdRef.current = track.id;
+    void (async () => {
+      try {
+        const file = await readFileSource(track.source);
+        if (cached && cached.size === file.size && cached.lastModified === file.lastModified) {
+          return;
+        }
+        const estimate = await estimateLoudness(file, track.extension);
+        if (estimate) {
+          setLoudnessEstimates((prev) => ({ ...prev, [track.id]: estimate }));
+        }
+      } catch {
+        // leave the track at unity gain when it cannot be decoded
+      } finally {
+        estimatingTrackIdRef.current = null;
+      }
+    })();
+  }, [
+    loudnessEstimatesHydrated,
+    replayGainSettings.estimateMissing,
+    replayGainSettings.mode,
+    currentTrackId,
+    loadedReplayGain,
+    tracksById,
+    loudnessEstimates,
+  ]);
+
+  useEffect(() => {
+    const fadeSeconds = playbackTransition.crossfadeSeconds;
+    const preloaded = standbyTrackRef.current;
+    if (
+      fadeSeconds <= 0 ||
+      !isPlaying ||
+      isCrossfading ||
+      !upcomingPlan ||
+      !preloaded ||
+      preloaded.track.id !== upcomingPlan.track.id ||
+      playbackModes.repeat === "one" ||
+      (sleepTimer !== null && sleepTimer.mode !== "minutes") ||
+      duration < fadeSeconds * 2 ||
+      (duration - currentTime) / playbackRate > fadeSeconds
+    ) {
+      return;
+    }
+
+    startCrossfade(upcomingPlan, preloaded, fadeSeconds);
+  }, [
+    playbackTransition.crossfadeSeconds,
+    isPlaying,
+    isCrossfading,
+    upcomingPlan,
+    playbackModes.repeat,
+    sleepTimer,
+    duration,
+    currentTime,
+    playbackRate,
+    startCrossfade,
+  ]);
+
+  useEffect(() => {
+    const fadeSeconds = playbackTransition.crossfadeSeconds;
+    const preloaded = standbyTrackRef.current;
+    if (
+      !playbackTransition.gapless ||
+      (fadeSeconds > 0 && duration >= fadeSeconds * 2) ||
+      !isPlaying ||
+      isCrossfading ||
+      !upcomingPlan ||
+      !preloaded ||
+      preloaded.track.id !== upcomingPlan.track.id ||
+      playbackModes.repeat === "one" ||
+      (sleepTimer !== null && sleepTimer.mode !== "minutes") ||
+      (duration - currentTime) / playbackRate > GAPLESS_ARM_SECONDS
+    ) {
+      return;
+    }
+
+    // read the element directly, the currentTime state lags behind by up to a tick
+    const audio = audioRef.current;
+    const remainingMs = ((audio.duration - audio.currentTime) * 1000) / audio.playbackRate;
+    if (!Number.isFinite(remainingMs)) {
+      return;
+    }
+    const timer = window.setTimeout(
+      () => startGaplessHandoff(upcomingPlan, preloaded),
+      Math.max(0, remainingMs - GAPLESS_LEAD_MS)
+    );
+    return () => window.clearTimeout(timer);
+  }, [
+    playbackTransition.gapless,
+    playbackTransition.crossfadeSeconds,
+    isPlaying,
+    isCrossfading,
+    upcomingPlan,
+    playbackModes.repeat,
+    sleepTimer,
+    duration,
+    currentTime,
+    playbackRate,
+    startGaplessHandoff,
+  ]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate, audioGeneration]);
 
   useEffect(() => {
     const timer = window.setInterval(() => {
@@ -502,12 +2783,12 @@ export default function App() {
       if (!audio.paused) {
         setCurrentTime(audio.currentTime || 0);
       }
-    }, LYRIC_TIMELINE_TICK_MS);
+    }, lyricTimelineIntervalMs(playbackRate));
 
     return () => {
       window.clearInterval(timer);
     };
-  }, []);
+  }, [playbackRate]);
 
   useEffect(() => {
     void (async () => {
@@ -521,125 +2802,260 @@ export default function App() {
 
   useEffect(() => {
     void (async () => {
-      const storedMapping = await get<Record<MetadataField, LyricLineRole>>(LYRIC_FIELD_MAPPING_KEY);
-      if (storedMapping) {
-        setFieldMapping({
-          title: storedMapping.title ?? DEFAULT_FIELD_MAPPING.title,
-          artist: storedMapping.artist ?? DEFAULT_FIELD_MAPPING.artist,
-          album: storedMapping.album ?? DEFAULT_FIELD_MAPPING.album,
+      const storedSnapshot = await get<PlaybackSnapshot>(PLAYBACK_SNAPSHOT_KEY);
+      if (storedSnapshot && typeof storedSnapshot.trackId === "string") {
+        setSavedPlaybackSnapshot({
+          trackId: storedSnapshot.trackId,
+          positionSeconds: Math.max(0, Number(storedSnapshot.positionSeconds) || 0),
+          wasPlaying: Boolean(storedSnapshot.wasPlaying),
         });
       }
-      setFieldMappingHydrated(true);
+      setSavedPlaybackSnapshotHydrated(true);
     })();
   }, []);
 
   useEffect(() => {
     void (async () => {
-      const storedScale = await get<number>(LYRIC_WIDTH_SCALE_KEY);
-      if (typeof storedScale === "number" && Number.isFinite(storedScale)) {
-        setLyricWidthScale(storedScale);
+      const storedQueue = await get<PlayQueue>(PLAY_QUEUE_KEY);
+      if (storedQueue && Array.isArray(storedQueue.entries)) {
+        const position = Number.isInteger(storedQueue.position) ? storedQueue.position : -1;
+        setPlayQueue({
+          entries: storedQueue.entries,
+          position: Math.min(storedQueue.entries.length - 1, Math.max(-1, position)),
+        });
       }
-      setLyricWidthScaleHydrated(true);
+      setPlayQueueHydrated(true);
     })();
   }, []);
 
+  useEffect(() => {
+    if (!openStateHydrated) {
+      return;
+    }
+    void set(TREE_OPEN_STATE_KEY, openDirectories);
+  }, [openDirectories, openStateHydrated]);
+
   useEffect(() => {
     void (async () => {
-      const storedProfile = await get<{ start: number; end: number }>(LYRIC_SCROLL_PROFILE_KEY);
-      if (storedProfile) {
-        const nextStart = Math.min(0.9, Math.max(0, storedProfile.start ?? DEFAULT_SCROLL_DWELL_START));
-        const nextEnd = Math.min(0.9, Math.max(0, storedProfile.end ?? DEFAULT_SCROLL_DWELL_END));
-        const overflow = Math.max(0, nextStart + nextEnd - (1 - MIN_SCROLL_PORTION));
-        setScrollDwellStart(Math.max(0, nextStart - overflow / 2));
-        setScrollDwellEnd(Math.max(0, nextEnd - overflow / 2));
-      }
-      setScrollProfileHydrated(true);
+      const storedProfiles = await get<BluetoothProfile[]>(BLUETOOTH_PROFILES_KEY);
+      let profiles = Array.isArray(storedProfiles)
+        ? storedProfiles
+            .filter((profile) => typeof profile.id === "string" && typeof profile.name === "string")
+            .map((profile) => ({ ...normalizeBluetoothSettings(profile), id: profile.id, name: profile.name }))
+        : [];
+      if (profiles.length === 0) {
+        // settings saved before profiles existed become the first profile, then the old keys go away
+        const storedScrollProfile = await get<{ start: number; end: number }>(LYRIC_SCROLL_PROFILE_KEY);
+        const legacySettings = normalizeBluetoothSettings({
+          fieldMapping: await get<Record<MetadataField, LyricLineRole>>(LYRIC_FIELD_MAPPING_KEY),
+          lyricWidthScale: await get<number>(LYRIC_WIDTH_SCALE_KEY),
+          scrollDwellStart: storedScrollProfile?.start,
+          scrollDwellEnd: storedScrollProfile?.end,
+          metadataRefreshIntervalMs: await get<number>(LYRIC_UPDATE_INTERVAL_KEY),
+          minSongMetadataSeconds: await get<number>(LYRIC_MIN_SONG_METADATA_SECONDS_KEY),
+        });
+        profiles = [createBluetoothProfile("Default", legacySettings)];
+        await set(BLUETOOTH_PROFILES_KEY, profiles);
+        await delMany([
+          LYRIC_FIELD_MAPPING_KEY,
+          LYRIC_WIDTH_SCALE_KEY,
+          LYRIC_SCROLL_PROFILE_KEY,
+          LYRIC_UPDATE_INTERVAL_KEY,
+          LYRIC_MIN_SONG_METADATA_SECONDS_KEY,
+        ]);
+      }
+      setBluetoothProfiles(profiles);
+      const storedActiveId = await get<string>(ACTIVE_BLUETOOTH_PROFILE_KEY);
+      if (typeof storedActiveId === "string") {
+        setActiveBluetoothProfileId(storedActiveId);
+      }
+      setBluetoothProfilesHydrated(true);
     })();
   }, []);
 
+  useEffect(() => {
+    if (!bluetoothProfilesHydrated) {
+      return;
+    }
+    void set(BLUETOOTH_PROFILES_KEY, bluetoothProfiles);
+    void set(ACTIVE_BLUETOOTH_PROFILE_KEY, activeBluetoothProfileId);
+  }, [activeBluetoothProfileId, bluetoothProfiles, bluetoothProfilesHydrated]);
+
   useEffect(() => {
     void (async () => {
-      const storedInterval = await get<number>(LYRIC_UPDATE_INTERVAL_KEY);
-      if (typeof storedInterval === "number" && Number.isFinite(storedInterval)) {
-        const clamped = Math.min(
-          MAX_METADATA_REFRESH_INTERVAL_MS,
-          Math.max(MIN_METADATA_REFRESH_INTERVAL_MS, Math.round(storedInterval))
-        );
-        setMetadataRefreshIntervalMs(clamped);
+      const storedModes = await get<PlaybackModes>(PLAYBACK_MODES_KEY);
+      if (storedModes) {
+        setPlaybackModes({
+          repeat: storedModes.repeat in REPEAT_MODE_LABELS ? storedModes.repeat : DEFAULT_PLAYBACK_MODES.repeat,
+          shuffle: storedModes.shuffle in SHUFFLE_SCOPE_LABELS ? storedModes.shuffle : DEFAULT_PLAYBACK_MODES.shuffle,
+        });
       }
-      setMetadataRefreshIntervalHydrated(true);
+      setPlaybackModesHydrated(true);
     })();
   }, []);
 
   useEffect(() => {
     void (async () => {
-      const storedMinSeconds = await get<number>(LYRIC_MIN_SONG_METADATA_SECONDS_KEY);
-      if (typeof storedMinSeconds === "number" && Number.isFinite(storedMinSeconds)) {
-        const clamped = Math.min(MAX_SONG_METADATA_SECONDS, Math.max(MIN_SONG_METADATA_SECONDS, storedMinSeconds));
-        setMinSongMetadataSeconds(clamped);
+      const storedView = await get<LibraryView>(LIBRARY_VIEW_KEY);
+      if (storedView && storedView in LIBRARY_VIEW_LABELS) {
+        setLibraryView(storedView);
       }
-      setMinSongMetadataSecondsHydrated(true);
+      setLibraryViewHydrated(true);
     })();
   }, []);
 
+  useEffect(() => {
+    if (!libraryViewHydrated) {
+      return;
+    }
+    void set(LIBRARY_VIEW_KEY, libraryView);
+  }, [libraryView, libraryViewHydrated]);
+
+  useEffect(() => {
+    if (!playbackModesHydrated) {
+      return;
+    }
+    void set(PLAYBACK_MODES_KEY, playbackModes);
+  }, [playbackModes, playbackModesHydrated]);
+
   useEffect(() => {
     void (async () => {
-      const storedSnapshot = await get<PlaybackSnapshot>(PLAYBACK_SNAPSHOT_KEY);
-      if (storedSnapshot && typeof storedSnapshot.trackId === "string") {
-        setSavedPlaybackSnapshot({
-          trackId: storedSnapshot.trackId,
-          positionSeconds: Math.max(0, Number(storedSnapshot.positionSeconds) || 0),
-          wasPlaying: Boolean(storedSnapshot.wasPlaying),
+      const storedTransition = await get<PlaybackTransition>(PLAYBACK_TRANSITION_KEY);
+      if (storedTransition) {
+        setPlaybackTransition({
+          gapless: storedTransition.gapless !== false,
+          crossfadeSeconds: Number.isFinite(storedTransition.crossfadeSeconds)
+            ? Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, storedTransition.crossfadeSeconds))
+            : DEFAULT_PLAYBACK_TRANSITION.crossfadeSeconds,
         });
       }
-      setSavedPlaybackSnapshotHydrated(true);
+      setPlaybackTransitionHydrated(true);
     })();
   }, []);
 
   useEffect(() => {
-    if (!openStateHydrated) {
+    if (!playbackTransitionHydrated) {
       return;
     }
-    void set(TREE_OPEN_STATE_KEY, openDirectories);
-  }, [openDirectories, openStateHydrated]);
+    void set(PLAYBACK_TRANSITION_KEY, playbackTransition);
+  }, [playbackTransition, playbackTransitionHydrated]);
+
+  useEffect(() => {
+    void (async () => {
+      const storedSettings = await get<ReplayGainSettings>(REPLAY_GAIN_KEY);
+      if (storedSettings) {
+        setReplayGainSettings({
+          mode: storedSettings.mode in REPLAY_GAIN_MODE_LABELS ? storedSettings.mode : DEFAULT_REPLAY_GAIN_SETTINGS.mode,
+          preampDb: Number.isFinite(storedSettings.preampDb)
+            ? Math.min(MAX_PREAMP_DB, Math.max(MIN_PREAMP_DB, storedSettings.preampDb))
+            : DEFAULT_REPLAY_GAIN_SETTINGS.preampDb,
+          preventClipping: storedSettings.preventClipping !== false,
+          estimateMissing: storedSettings.estimateMissing === true,
+        });
+      }
+      setReplayGainSettingsHydrated(true);
+
+      const storedEstimates = await get<Record<string, LoudnessEstimate>>(LOUDNESS_ESTIMATES_KEY);
+      if (storedEstimates) {
+        setLoudnessEstimates(storedEstimates);
+      }
+      setLoudnessEstimatesHydrated(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    void (async () => {
+      const storedSettings = await get<EqualizerSettings>(EQUALIZER_KEY);
+      if (storedSettings) {
+        setEqualizerSettings({
+          bypassed: storedSettings.bypassed !== false,
+          gains: normalizeBandGains(storedSettings.gains),
+        });
+      }
+      setEqualizerSettingsHydrated(true);
+
+      const storedPresets = await get<EqualizerPreset[]>(EQUALIZER_PRESETS_KEY);
+      if (Array.isArray(storedPresets)) {
+        setUserEqualizerPresets(
+          storedPresets.map((preset) => ({ id: preset.id, name: preset.name, gains: normalizeBandGains(preset.gains) }))
+        );
+      }
+      setUserEqualizerPresetsHydrated(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!equalizerSettingsHydrated) {
+      return;
+    }
+    void set(EQUALIZER_KEY, equalizerSettings);
+  }, [equalizerSettings, equalizerSettingsHydrated]);
 
   useEffect(() => {
-    if (!fieldMappingHydrated) {
+    if (!userEqualizerPresetsHydrated) {
       return;
     }
-    void set(LYRIC_FIELD_MAPPING_KEY, fieldMapping);
-  }, [fieldMapping, fieldMappingHydrated]);
+    void set(EQUALIZER_PRESETS_KEY, userEqualizerPresets);
+  }, [userEqualizerPresets, userEqualizerPresetsHydrated]);
+
+  useEffect(() => {
+    void (async () => {
+      const storedSpeed = await get<PlaybackSpeedSettings>(PLAYBACK_SPEED_KEY);
+      if (storedSpeed) {
+        const perTrack: Record<string, number> = {};
+        for (const [trackId, speed] of Object.entries(storedSpeed.perTrack ?? {})) {
+          perTrack[trackId] = clampPlaybackSpeed(speed);
+        }
+        setPlaybackSpeed({ global: clampPlaybackSpeed(storedSpeed.global), perTrack });
+      }
+      setPlaybackSpeedHydrated(true);
+    })();
+  }, []);
 
   useEffect(() => {
-    if (!lyricWidthScaleHydrated) {
+    void (async () => {
+      const storedOffsets = await get<Record<string, number>>(LYRIC_OFFSETS_KEY);
+      if (storedOffsets) {
+        setLyricOffsets(storedOffsets);
+      }
+      setLyricOffsetsHydrated(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!lyricOffsetsHydrated) {
       return;
     }
-    void set(LYRIC_WIDTH_SCALE_KEY, lyricWidthScale);
-  }, [lyricWidthScale, lyricWidthScaleHydrated]);
+    void set(LYRIC_OFFSETS_KEY, lyricOffsets);
+  }, [lyricOffsets, lyricOffsetsHydrated]);
 
   useEffect(() => {
-    if (!scrollProfileHydrated) {
+    if (!playbackSpeedHydrated) {
       return;
     }
-    void set(LYRIC_SCROLL_PROFILE_KEY, {
-      start: scrollDwellStart,
-      end: scrollDwellEnd,
-    });
-  }, [scrollProfileHydrated, scrollDwellStart, scrollDwellEnd]);
+    void set(PLAYBACK_SPEED_KEY, playbackSpeed);
+  }, [playbackSpeed, playbackSpeedHydrated]);
+
+  useEffect(() => {
+    if (!replayGainSettingsHydrated) {
+      return;
+    }
+    void set(REPLAY_GAIN_KEY, replayGainSettings);
+  }, [replayGainSettings, replayGainSettingsHydrated]);
 
   useEffect(() => {
-    if (!metadataRefreshIntervalHydrated) {
+    if (!loudnessEstimatesHydrated) {
       return;
     }
-    void set(LYRIC_UPDATE_INTERVAL_KEY, metadataRefreshIntervalMs);
-  }, [metadataRefreshIntervalHydrated, metadataRefreshIntervalMs]);
+    void set(LOUDNESS_ESTIMATES_KEY, loudnessEstimates);
+  }, [loudnessEstimates, loudnessEstimatesHydrated]);
 
   useEffect(() => {
-    if (!minSongMetadataSecondsHydrated) {
+    if (!playQueueHydrated) {
       return;
     }
-    void set(LYRIC_MIN_SONG_METADATA_SECONDS_KEY, minSongMetadataSeconds);
-  }, [minSongMetadataSecondsHydrated, minSongMetadataSeconds]);
+    void set(PLAY_QUEUE_KEY, playQueue);
+  }, [playQueue, playQueueHydrated]);
 
   useEffect(() => {
     if (!currentTrackId) {
@@ -668,26 +3084,179 @@ export default function App() {
     };
   }, []);
 
-  const handleScrollDwellStartChange = useCallback((nextValue: number) => {
-    const clamped = Math.min(0.9, Math.max(0, nextValue));
-    setScrollDwellStart(clamped);
-    setScrollDwellEnd((prev) => {
-      const maxEnd = 1 - MIN_SCROLL_PORTION - clamped;
-      return Math.min(prev, Math.max(0, maxEnd));
-    });
-  }, []);
+  const handleScrollDwellStartChange = useCallback(
+    (nextValue: number) => {
+      const clamped = Math.min(0.9, Math.max(0, nextValue));
+      updateBluetoothSettings((settings) => {
+        const maxEnd = 1 - MIN_SCROLL_PORTION - clamped;
+        return { scrollDwellStart: clamped, scrollDwellEnd: Math.min(settings.scrollDwellEnd, Math.max(0, maxEnd)) };
+      });
+    },
+    [updateBluetoothSettings]
+  );
+
+  const handleScrollDwellEndChange = useCallback(
+    (nextValue: number) => {
+      const clamped = Math.min(0.9, Math.max(0, nextValue));
+      updateBluetoothSettings((settings) => {
+        const maxStart = 1 - MIN_SCROLL_PORTION - clamped;
+        return { scrollDwellEnd: clamped, scrollDwellStart: Math.min(settings.scrollDwellStart, Math.max(0, maxStart)) };
+      });
+    },
+    [updateBluetoothSettings]
+  );
+
+  const equalizerPresets = useMemo(
+    () => [...BUILT_IN_EQUALIZER_PRESETS, ...userEqualizerPresets],
+    [userEqualizerPresets]
+  );
+
+  const activeEqualizerPreset = useMemo(
+    () => matchingPreset(equalizerPresets, equalizerSettings.gains),
+    [equalizerPresets, equalizerSettings.gains]
+  );
+
+  const handleEqualizerBandChange = useCallback((band: number, gainDb: number) => {
+    setEqualizerSettings((prev) => ({
+      ...prev,
+      gains: prev.gains.map((gain, index) => (index === band ? gainDb : gain)),
+    }));
+  }, []);
+
+  const handleSaveEqualizerPreset = useCallback(() => {
+    const name = window.prompt("Preset name", "My preset")?.trim();
+    if (!name) {
+      return;
+    }
+    const gains = equalizerSettings.gains;
+    setUserEqualizerPresets((prev) => {
+      const existing = prev.find((preset) => preset.name === name);
+      if (existing) {
+        return prev.map((preset) => (preset.id === existing.id ? { ...preset, gains } : preset));
+      }
+      return [...prev, { id: `user:${Date.now().toString(36)}`, name, gains }];
+    });
+  }, [equalizerSettings.gains]);
+
+  const handleDeleteEqualizerPreset = useCallback((presetId: string) => {
+    setUserEqualizerPresets((prev) => prev.filter((preset) => preset.id !== presetId));
+  }, []);
+
+  const handleCalibrationPick = useCallback(
+    (visibleCount: number) => {
+      if (!calibration) {
+        return;
+      }
+      const capacities = { ...calibration.capacities, [GLYPH_CLASSES[calibration.step]]: visibleCount };
+      if (calibration.step < GLYPH_CLASSES.length - 1) {
+        setCalibration({ step: calibration.step + 1, capacities });
+        return;
+      }
+      updateBluetoothSettings(() => ({
+        widthModel: normalizeWidthModel(capacities),
+        lyricWidthScale: DEFAULT_LYRIC_WIDTH_SCALE,
+      }));
+      setCalibration(null);
+    },
+    [calibration, updateBluetoothSettings]
+  );
+
+  const handleSelectBluetoothProfile = useCallback(
+    (profileId: string) => {
+      const profile = bluetoothProfiles.find((entry) => entry.id === profileId);
+      if (!profile) {
+        return;
+      }
+      setActiveBluetoothProfileId(profile.id);
+    },
+    [bluetoothProfiles]
+  );
+
+  const handleDuplicateBluetoothProfile = useCallback(() => {
+    const baseName = activeBluetoothProfile ? `${activeBluetoothProfile.name} copy` : "New profile";
+    const name = window.prompt("Profile name", uniqueProfileName(bluetoothProfiles, baseName))?.trim();
+    if (!name) {
+      return;
+    }
+    const profile = createBluetoothProfile(uniqueProfileName(bluetoothProfiles, name), bluetoothSettings);
+    setBluetoothProfiles((prev) => [...prev, profile]);
+    setActiveBluetoothProfileId(profile.id);
+  }, [activeBluetoothProfile, bluetoothProfiles, bluetoothSettings]);
+
+  const handleRenameBluetoothProfile = useCallback(() => {
+    if (!activeBluetoothProfile) {
+      return;
+    }
+    const name = window.prompt("Profile name", activeBluetoothProfile.name)?.trim();
+    if (!name || name === activeBluetoothProfile.name) {
+      return;
+    }
+    const others = bluetoothProfiles.filter((profile) => profile.id !== activeBluetoothProfile.id);
+    const uniqueName = uniqueProfileName(others, name);
+    setBluetoothProfiles((prev) =>
+      prev.map((profile) => (profile.id === activeBluetoothProfile.id ? { ...profile, name: uniqueName } : profile))
+    );
+  }, [activeBluetoothProfile, bluetoothProfiles]);
+
+  const handleDeleteBluetoothProfile = useCallback(() => {
+    if (!activeBluetoothProfile || bluetoothProfiles.length <= 1) {
+      return;
+    }
+    if (!window.confirm(`Delete the "${activeBluetoothProfile.name}" profile?`)) {
+      return;
+    }
+    const remaining = bluetoothProfiles.filter((profile) => profile.id !== activeBluetoothProfile.id);
+    setBluetoothProfiles(remaining);
+    setActiveBluetoothProfileId(remaining[0].id);
+  }, [activeBluetoothProfile, bluetoothProfiles]);
+
+  const handleExportBluetoothProfiles = useCallback(() => {
+    const blob = new Blob([exportBluetoothProfiles(bluetoothProfiles)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "bluetooth-profiles.json";
+    link.click();
+    // the download starts after this handler returns, so the url has to outlive it
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, [bluetoothProfiles]);
 
-  const handleScrollDwellEndChange = useCallback((nextValue: number) => {
-    const clamped = Math.min(0.9, Math.max(0, nextValue));
-    setScrollDwellEnd(clamped);
-    setScrollDwellStart((prev) => {
-      const maxStart = 1 - MIN_SCROLL_PORTION - clamped;
-      return Math.min(prev, Math.max(0, maxStart));
-    });
-  }, []);
+  const handleImportBluetoothProfiles = useCallback(
+    async (file: File) => {
+      setBluetoothProfileError(null);
+      try {
+        const imported = parseBluetoothProfileExport(await file.text());
+        if (imported.length === 0) {
+          setBluetoothProfileError("The file does not contain any profiles.");
+          return;
+        }
+        const next = [...bluetoothProfiles];
+        for (const entry of imported) {
+          next.push(createBluetoothProfile(uniqueProfileName(next, entry.name), entry.settings));
+        }
+        setBluetoothProfiles(next);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to import profiles.";
+        setBluetoothProfileError(message);
+      }
+    },
+    [bluetoothProfiles]
+  );
+
+  useEffect(() => {
+    if (!revealTrackId) {
+      return;
+    }
+
+    const escapedId = CSS.escape(revealTrackId);
+    document
+      .querySelector(`.library-tree [data-track-id="${escapedId}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+    setRevealTrackId(null);
+  }, [revealTrackId, openDirectories]);
 
   useEffect(() => {
-    if (!savedPlaybackSnapshotHydrated || !savedPlaybackSnapshot || tracks.length === 0) {
+    if (!savedPlaybackSnapshotHydrated || !savedPlaybackSnapshot || !isLibraryLive || tracks.length === 0) {
       return;
     }
 
@@ -705,28 +3274,47 @@ export default function App() {
     }
 
     restoreInFlightRef.current = true;
-    void playTrack(track, {
+    void playAndRecord(track, -1, {
       autoplay: savedPlaybackSnapshot.wasPlaying,
       startTimeSeconds: savedPlaybackSnapshot.positionSeconds,
     }).finally(() => {
       restoredSnapshotTrackIdRef.current = savedPlaybackSnapshot.trackId;
       restoreInFlightRef.current = false;
     });
-  }, [savedPlaybackSnapshotHydrated, savedPlaybackSnapshot, tracks, playTrack]);
+  }, [savedPlaybackSnapshotHydrated, savedPlaybackSnapshot, isLibraryLive, tracks, playAndRecord]);
 
   useEffect(() => {
     void (async () => {
-      const storedHandle = await get<FileSystemDirectoryHandle>(ROOT_HANDLE_KEY);
-      if (!storedHandle) {
+      // only folders opened with a handle are stored
+      const storedRoots = await get<Array<LibraryRoot & { source: FileSystemDirectoryHandle }>>(LIBRARY_ROOTS_KEY);
+      const legacyHandle = storedRoots ? undefined : await get<FileSystemDirectoryHandle>(ROOT_HANDLE_KEY);
+      const roots =
+        storedRoots ?? (legacyHandle ? [{ id: legacyHandle.name, label: legacyHandle.name, source: legacyHandle }] : []);
+      if (roots.length === 0) {
         return;
       }
+      setLibraryRoots(roots);
+      const permissions = await Promise.all(roots.map((root) => root.source.queryPermission({ mode: "read" })));
+      setRootAccess(Object.fromEntries(roots.map((root, index) => [root.id, permissions[index]])));
+
+      const storedIndex = await get<LibraryIndex>(LIBRARY_INDEX_KEY);
+      const cachedIndex = storedIndex ? await cachedLibraryIndex(storedIndex, roots) : null;
+      if (cachedIndex) {
+        libraryIndexRef.current = cachedIndex;
+        setRootNodes(cachedIndex.roots.map((root) => root.root));
+        setTrackTags(cachedIndex.tags);
+        setUnsupportedCodecTrackIds(
+          unsupportedCodecs(cachedIndex.roots.flatMap((root) => flattenTracks(root.root)), cachedIndex.tags)
+        );
+        setLyricsText(cachedIndex.lyricsText);
+        setPlaylists(cachedIndex.playlists);
+      }
 
-      const permission = await storedHandle.queryPermission({ mode: "read" });
-      if (permission === "granted") {
-        await scanDirectory(storedHandle);
+      if (permissions.every((permission) => permission === "granted")) {
+        await scanLibrary(roots);
       }
     })();
-  }, [scanDirectory]);
+  }, [scanLibrary]);
 
   useEffect(() => {
     if (!("mediaSession" in navigator)) {
@@ -760,6 +3348,15 @@ export default function App() {
       return;
     }
 
+    if (calibration) {
+      if (metadataFlushTimerRef.current !== null) {
+        window.clearTimeout(metadataFlushTimerRef.current);
+        metadataFlushTimerRef.current = null;
+      }
+      pendingMetadataRef.current = null;
+      return;
+    }
+
     if (!currentMetadata) {
       if (metadataFlushTimerRef.current !== null) {
         window.clearTimeout(metadataFlushTimerRef.current);
@@ -773,20 +3370,7 @@ export default function App() {
       return;
     }
 
-    const usesLyricsWindow = shouldUseLyricsWindow;
-
-    const nextPayload: BluetoothMetadataPayload = {
-      title: metadataFieldValueOrPlaceholder(
-        usesLyricsWindow ? lyricWindow[fieldMapping.title] : currentMetadata.title
-      ),
-      artist: metadataFieldValueOrPlaceholder(
-        usesLyricsWindow ? lyricWindow[fieldMapping.artist] : currentMetadata.artist
-      ),
-      album: metadataFieldValueOrPlaceholder(
-        usesLyricsWindow ? lyricWindow[fieldMapping.album] : currentMetadata.album
-      ),
-      artworkUrl: currentMetadata.artworkUrl,
-    };
+    const nextPayload = buildMetadataPayload(currentMetadata, shouldUseLyricsWindow ? lyricWindow : null, fieldMapping);
 
     const payloadSignature = JSON.stringify(nextPayload);
     if (payloadSignature === lastSentMetadataSignatureRef.current && pendingMetadataRef.current === null) {
@@ -839,20 +3423,38 @@ export default function App() {
       pendingMetadataRef.current = null;
       publishPayload(pending);
     }, waitMs);
-  }, [currentMetadata, shouldUseLyricsWindow, lyricWindow, fieldMapping, metadataRefreshIntervalMs]);
+  }, [calibration, currentMetadata, shouldUseLyricsWindow, lyricWindow, fieldMapping, metadataRefreshIntervalMs]);
+
+  useEffect(() => {
+    if (!calibration || !("mediaSession" in navigator)) {
+      return;
+    }
+    const ruler = CALIBRATION_RULERS[GLYPH_CLASSES[calibration.step]];
+    navigator.mediaSession.metadata = new MediaMetadata({ title: ruler, artist: ruler, album: ruler });
+    // forces the normal metadata to be sent again once calibration ends
+    lastSentMetadataSignatureRef.current = null;
+  }, [calibration]);
 
   useEffect(() => {
     return () => {
       audioRef.current.pause();
+      standbyAudioRef.current.pause();
+      libraryIndexRunRef.current += 1;
       if (latestPlaybackSnapshotRef.current) {
         void set(PLAYBACK_SNAPSHOT_KEY, latestPlaybackSnapshotRef.current);
       }
       if (metadataFlushTimerRef.current !== null) {
         window.clearTimeout(metadataFlushTimerRef.current);
       }
+      if (crossfadeTimerRef.current !== null) {
+        window.clearInterval(crossfadeTimerRef.current);
+      }
       if (trackObjectUrlRef.current) {
         URL.revokeObjectURL(trackObjectUrlRef.current);
       }
+      if (standbyTrackRef.current) {
+        URL.revokeObjectURL(standbyTrackRef.current.url);
+      }
       if (artworkUrlRef.current) {
         URL.revokeObjectURL(artworkUrlRef.current);
       }
@@ -868,28 +3470,251 @@ export default function App() {
           <h1>Bars Player</h1>
           <p>Android-first PWA music player with synced lyrics.</p>
         </div>
-        <button type="button" onClick={handlePickDirectory} className="cta-button" disabled={isScanning || unsupported}>
-          {isScanning ? "Scanning..." : "Choose Music Folder"}
-        </button>
+        {unsupported ? (
+          <label className="cta-button" aria-disabled={isScanning}>
+            {isScanning ? "Scanning..." : "Add Music Folder"}
+            <input
+              type="file"
+              multiple
+              hidden
+              disabled={isScanning}
+              ref={(input) => {
+                if (input) {
+                  input.webkitdirectory = true;
+                }
+              }}
+              onChange={(event) => {
+                const files = Array.from(event.target.files ?? []);
+                event.target.value = "";
+                handleImportFiles(files);
+              }}
+            />
+          </label>
+        ) : (
+          <button type="button" onClick={() => void handleAddRoot()} className="cta-button" disabled={isScanning}>
+            {isScanning ? "Scanning..." : "Add Music Folder"}
+          </button>
+        )}
       </header>
 
-      {unsupported && <div className="warning">Your browser does not support the File System Access API.</div>}
       {scanError && <div className="warning">{scanError}</div>}
+      {lapsedRoots.length > 0 && (
+        <div className="warning reconnect-banner">
+          {lapsedRoots.map(({ root, access }) => (
+            <div key={root.id} className="reconnect-row">
+              <span>
+                “{root.label}” {ROOT_ACCESS_MESSAGES[access]}
+              </span>
+              {access !== "missing" && (
+                <button
+                  type="button"
+                  className="track-action"
+                  onClick={() => void handleReconnectRoot(root.id)}
+                  disabled={isScanning}
+                >
+                  Reconnect to {root.label}
+                </button>
+              )}
+            </div>
+          ))}
+          {resumeSnapshotTrack && savedPlaybackSnapshot && (
+            <p className="hint">
+              Will resume {trackTags[resumeSnapshotTrack.id]?.title ?? resumeSnapshotTrack.name} at{" "}
+              {formatDuration(savedPlaybackSnapshot.positionSeconds)} once reconnected.
+            </p>
+          )}
+        </div>
+      )}
+      {playbackError && <div className="warning">{playbackError}</div>}
 
       <main className="layout">
-        <section className="panel">
+        <section
+          className={isDraggingFolder ? "panel library-drop-active" : "panel"}
+          onDragOver={(event) => {
+            if (!event.dataTransfer.types.includes("Files")) {
+              return;
+            }
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "copy";
+            setIsDraggingFolder(true);
+          }}
+          onDragLeave={(event) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+              setIsDraggingFolder(false);
+            }
+          }}
+          onDrop={(event) => {
+            if (!event.dataTransfer.types.includes("Files")) {
+              return;
+            }
+            event.preventDefault();
+            setIsDraggingFolder(false);
+            handleLibraryDrop(event.dataTransfer);
+          }}
+        >
           <h2>Library</h2>
-          {tree ? (
-            <TreeNode
-              node={tree}
-              currentTrackId={currentTrackId}
-              onPlay={(track) => void playTrack(track)}
-              openDirectories={openDirectories}
-              onDirectoryOpenChange={handleDirectoryOpenChange}
-              isRoot
-            />
+          {unsupported && (
+            <p className="hint">
+              This browser cannot keep access to folders, so added or dropped folders are imported for this session
+              only and cannot be written to.
+            </p>
+          )}
+          {isScanning && rootNodes.length > 0 && <p className="hint">Checking the folders for changes...</p>}
+          {!isScanning && !isLibraryLive && rootNodes.length > 0 && (
+            <p className="hint">Showing the library from your last session. Reconnect to play from it.</p>
+          )}
+          {libraryRoots.length > 0 && (
+            <ul className="library-roots">
+              {libraryRoots.map((root) => (
+                <li key={root.id} className="library-root">
+                  <span className="library-root-label" title={root.source.name}>
+                    {root.label}
+                    {!isDirectoryHandle(root.source) && (
+                      <span className="track-badge library-root-badge">this session</span>
+                    )}
+                  </span>
+                  <div className="queue-actions">
+                    <button
+                      type="button"
+                      className="track-action"
+                      onClick={() => handleRenameRoot(root.id)}
+                      disabled={isScanning}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      className="track-action"
+                      onClick={() => handleRemoveRoot(root.id)}
+                      disabled={isScanning}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+              <li className="library-root">
+                <button
+                  type="button"
+                  className="track-action"
+                  onClick={() => void scanLibrary(libraryRoots, true)}
+                  title="Read every file again to pick up tags and lyrics edited in place"
+                  disabled={isScanning}
+                >
+                  Rescan library
+                </button>
+              </li>
+            </ul>
+          )}
+          {libraryIndexProgress && (
+            <p className="hint">
+              Indexing tags and lyrics: {libraryIndexProgress.done} / {libraryIndexProgress.total}
+            </p>
+          )}
+          {rootNodes.length > 0 && (
+            <div className="search-box">
+              <input
+                type="search"
+                placeholder="Search titles, artists, albums, paths or lyrics"
+                value={searchQuery}
+                onChange={(event) => setSearchQuery(event.target.value)}
+              />
+            </div>
+          )}
+          {deferredSearchQuery.trim() && (
+            <div className="search-results">
+              {searchResults.length === 0 ? (
+                <p className="empty">No matches.</p>
+              ) : (
+                searchResults.map((result) => {
+                  const track = tracksById.get(result.trackId);
+                  if (!track) {
+                    return null;
+                  }
+                  const tags = trackTags[track.id];
+                  return (
+                    <TrackRow
+                      key={track.id}
+                      track={track}
+                      label={tags ? [tags.title, tags.artist].filter(Boolean).join(" — ") : track.name}
+                      detail={result.lyricSnippet ? `“${result.lyricSnippet}”` : track.path}
+                      isActive={track.id === currentTrackId}
+                      onPlay={(selected) => void playAndRecord(selected, -1)}
+                      onPlayNext={handlePlayNextInQueue}
+                      onAddToQueue={handleAddToQueue}
+                      onReveal={handleRevealTrack}
+                    />
+                  );
+                })
+              )}
+            </div>
+          )}
+          {rootNodes.length > 0 && (
+            <div className="view-toggle" role="group" aria-label="Library view">
+              {(["folders", "artists", "albums", "genres"] as LibraryView[]).map((view) => (
+                <button
+                  key={view}
+                  className={view === libraryView ? "view-toggle-active" : ""}
+                  onClick={() => setLibraryView(view)}
+                  type="button"
+                >
+                  {LIBRARY_VIEW_LABELS[view]}
+                </button>
+              ))}
+            </div>
+          )}
+          {rootNodes.length > 0 && libraryView !== "folders" && (
+            <div className="library-browse">
+              {Object.keys(trackTags).length < tracks.length && (
+                <p className="hint">Tags are still being read; some tracks may be grouped as unknown.</p>
+              )}
+              {browseGroups.map((group) => (
+                <BrowseGroupNode
+                  key={group.id}
+                  group={group}
+                  tags={trackTags}
+                  currentTrackId={currentTrackId}
+                  onPlay={(track) => void playAndRecord(track, -1)}
+                  onPlayNext={handlePlayNextInQueue}
+                  onAddToQueue={handleAddToQueue}
+                  onPlayAll={handlePlayAll}
+                />
+              ))}
+            </div>
+          )}
+          {treeRoots.length > 0 ? (
+            <div className="library-tree" hidden={libraryView !== "folders"}>
+              {treeRoots.map((node) => (
+                <TreeNode
+                  key={node.id}
+                  node={node}
+                  currentTrackId={currentTrackId}
+                  onPlay={(track) => void playAndRecord(track, -1)}
+                  onPlayNext={handlePlayNextInQueue}
+                  onAddToQueue={handleAddToQueue}
+                  onPlayAll={handlePlayAll}
+                  openDirectories={openDirectories}
+                  onDirectoryOpenChange={handleDirectoryOpenChange}
+                  isRoot
+                />
+              ))}
+            </div>
           ) : (
-            <p className="empty">Select a folder to begin.</p>
+            <p className="empty">Select or drop a folder to begin.</p>
+          )}
+          {playlists.length > 0 && (
+            <>
+              <h2>Playlists</h2>
+              <PlaylistSection
+                playlists={playlists}
+                tracksById={tracksById}
+                currentTrackId={currentTrackId}
+                onPlay={(track) => void playAndRecord(track, -1)}
+                onPlayNext={handlePlayNextInQueue}
+                onAddToQueue={handleAddToQueue}
+                onPlayAll={handlePlayAll}
+              />
+            </>
           )}
         </section>
 
@@ -922,6 +3747,109 @@ export default function App() {
                   Next
                 </button>
               </div>
+              <div className="controls">
+                <button
+                  onClick={() => {
+                    setPlaybackModes((prev) => ({ ...prev, repeat: NEXT_REPEAT_MODE[prev.repeat] }));
+                  }}
+                  type="button"
+                >
+                  {REPEAT_MODE_LABELS[playbackModes.repeat]}
+                </button>
+                <select
+                  value={playbackModes.shuffle}
+                  onChange={(event) => {
+                    const shuffle = event.target.value as ShuffleScope;
+                    shuffleBagRef.current = null;
+                    setPlaybackModes((prev) => ({ ...prev, shuffle }));
+                  }}
+                >
+                  {(["off", "library", "folder", "queue"] as ShuffleScope[]).map((scope) => (
+                    <option key={scope} value={scope}>
+                      {SHUFFLE_SCOPE_LABELS[scope]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="controls">
+                <select
+                  value={playbackRate}
+                  onChange={(event) => handlePlaybackSpeedChange(Number(event.target.value))}
+                  aria-label="Playback speed"
+                >
+                  {PLAYBACK_SPEED_OPTIONS.map((speed) => (
+                    <option key={speed} value={speed}>
+                      {speed}x speed
+                    </option>
+                  ))}
+                </select>
+                <label className="speed-scope">
+                  <input
+                    type="checkbox"
+                    checked={currentTrackId !== null && playbackSpeed.perTrack[currentTrackId] !== undefined}
+                    onChange={(event) => handleTrackSpeedOverride(event.target.checked)}
+                  />
+                  This track only
+                </label>
+              </div>
+              {bluetoothProfiles.length > 1 && (
+                <div className="controls">
+                  <select
+                    value={activeBluetoothProfileId ?? ""}
+                    onChange={(event) => handleSelectBluetoothProfile(event.target.value)}
+                    aria-label="Bluetooth display profile"
+                  >
+                    {bluetoothProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="controls">
+                {sleepTimer ? (
+                  <>
+                    <span className="sleep-countdown">
+                      {sleepTimer.mode === "tracks" && !isFinalSleepTrack(sleepTimer)
+                        ? `Sleeping after ${sleepTimer.tracksRemaining} tracks`
+                        : sleepRemaining !== null && Number.isFinite(sleepRemaining)
+                          ? `Sleeping in ${formatDuration(sleepRemaining / 1000)}`
+                          : "Sleeping after this track"}
+                    </span>
+                    <button onClick={cancelSleepTimer} type="button">
+                      Cancel sleep timer
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <select
+                      value={sleepTimerMode}
+                      onChange={(event) => setSleepTimerMode(event.target.value as SleepTimerMode)}
+                    >
+                      {(Object.keys(SLEEP_TIMER_MODE_LABELS) as SleepTimerMode[]).map((mode) => (
+                        <option key={mode} value={mode}>
+                          {SLEEP_TIMER_MODE_LABELS[mode]}
+                        </option>
+                      ))}
+                    </select>
+                    {sleepTimerMode !== "track-end" && (
+                      <input
+                        className="sleep-amount"
+                        type="number"
+                        min={1}
+                        max={sleepTimerMode === "minutes" ? 600 : 100}
+                        value={sleepTimerAmount}
+                        aria-label={sleepTimerMode === "minutes" ? "Minutes" : "Tracks"}
+                        onChange={(event) => setSleepTimerAmount(Math.max(1, Number(event.target.value) || 1))}
+                      />
+                    )}
+                    <button onClick={handleStartSleepTimer} type="button">
+                      Start sleep timer
+                    </button>
+                  </>
+                )}
+              </div>
               <div className="timeline">
                 <span>{formatDuration(currentTime)}</span>
                 <input
@@ -942,35 +3870,416 @@ export default function App() {
             <p className="empty">Pick a song from the library.</p>
           )}
 
+          <h2>Up Next</h2>
+          <QueuePanel
+            queue={playQueue}
+            tracksById={tracksById}
+            onJump={(index) => playFromQueue(jumpToQueueEntry(playQueue, index))}
+            onMove={(fromIndex, toIndex) => setPlayQueue((prev) => moveQueueEntry(prev, fromIndex, toIndex))}
+            onRemove={(index) => setPlayQueue((prev) => removeQueueEntry(prev, index))}
+            onClear={() => setPlayQueue(EMPTY_QUEUE)}
+            onSave={rootNodes.length > 0 ? () => void handleSaveQueueAsPlaylist() : undefined}
+          />
+
           <h2>Lyrics</h2>
-          <div className="lyrics-box">
-            {lyrics.length === 0 ? (
-              <p className="empty">No synced lyrics found for this track.</p>
-            ) : (
-              lyrics.map((line, index) => (
-                <p key={`${line.timeMs}-${index}`} className={index === activeLyric ? "lyric-active" : "lyric-line"}>
-                  {line.text}
-                </p>
-              ))
-            )}
+          {lyricsSource && <p className="hint">{LYRICS_SOURCE_LABELS[lyricsSource]}</p>}
+          {lyrics.length > 0 && (
+            <div className="lyric-offset">
+              {[-500, -100, 100, 500].map((deltaMs) => (
+                <button
+                  key={deltaMs}
+                  className="track-action"
+                  onClick={() => handleLyricOffsetNudge(deltaMs)}
+                  title={deltaMs < 0 ? "Show lyrics earlier" : "Show lyrics later"}
+                  type="button"
+                >
+                  {deltaMs > 0 ? "+" : "−"}
+                  {Math.abs(deltaMs)} ms
+                </button>
+              ))}
+              <span className="lyric-offset-value">
+                Offset {lyricOffsetMs > 0 ? "+" : ""}
+                {lyricOffsetMs} ms
+              </span>
+              {lyricOffsetMs !== 0 && (
+                <>
+                  <button
+                    className="track-action"
+                    onClick={() => handleLyricOffsetNudge(-lyricOffsetMs)}
+                    type="button"
+                  >
+                    Reset
+                  </button>
+                  {lyricsSource === "sidecar" && (
+                    <>
+                      <button
+                        className="track-action"
+                        onClick={() => void handleSaveLyricOffset("tag")}
+                        title="Store the offset as an [offset:] tag in the .lrc file"
+                        type="button"
+                      >
+                        Save as [offset:] tag
+                      </button>
+                      <button
+                        className="track-action"
+                        onClick={() => void handleSaveLyricOffset("timestamps")}
+                        title="Shift every timestamp in the .lrc file"
+                        type="button"
+                      >
+                        Rewrite timestamps
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+          <LyricsView
+            lyrics={lyrics}
+            activeLine={activeLyric}
+            activeWord={activeWord}
+            timeMs={lyricTimeMs}
+            playbackRate={playbackRate}
+            onSeek={handleLyricSeek}
+          />
+
+          {currentTrackId && lyricsSource !== "sidecar" && !activeSyncDraft && (
+            <details className="sync-authoring">
+              <summary>Create synced lyrics</summary>
+              <textarea
+                className="sync-text"
+                value={syncText}
+                onChange={(event) => setSyncText(event.target.value)}
+                placeholder="Paste plain lyrics, one line per row"
+                rows={8}
+              />
+              <button className="track-action" onClick={handleStartSync} disabled={!syncText.trim()} type="button">
+                Start syncing
+              </button>
+            </details>
+          )}
+          {activeSyncDraft && (
+            <div className="sync-authoring">
+              <div className="queue-actions">
+                <button
+                  className="sync-stamp"
+                  onClick={handleSyncStamp}
+                  disabled={activeSyncDraft.cursor >= activeSyncDraft.lines.length}
+                  type="button"
+                >
+                  {activeSyncDraft.cursor < activeSyncDraft.lines.length
+                    ? `Stamp: ${activeSyncDraft.lines[activeSyncDraft.cursor]}`
+                    : "All lines stamped"}
+                </button>
+              </div>
+              <div className="queue-actions">
+                <button
+                  className="track-action"
+                  onClick={() => setSyncDraft((prev) => (prev ? undoSyncStep(prev) : prev))}
+                  disabled={activeSyncDraft.past.length === 0}
+                  type="button"
+                >
+                  Undo
+                </button>
+                <button
+                  className="track-action"
+                  onClick={() => handleSyncSelectLine(activeSyncDraft.cursor - 1)}
+                  disabled={activeSyncDraft.cursor === 0}
+                  type="button"
+                >
+                  Back one line
+                </button>
+                <label className="speed-scope">
+                  <input
+                    type="checkbox"
+                    checked={isSyncPreviewing}
+                    onChange={(event) => setIsSyncPreviewing(event.target.checked)}
+                  />
+                  Preview
+                </label>
+                <button
+                  className="track-action"
+                  onClick={() => void handleSaveSync()}
+                  disabled={activeSyncDraft.stamps.every((stamp) => stamp === null)}
+                  type="button"
+                >
+                  Save .lrc
+                </button>
+                <button className="track-action" onClick={() => setSyncDraft(null)} type="button">
+                  Discard
+                </button>
+              </div>
+              <ol className="sync-lines">
+                {activeSyncDraft.lines.map((line, index) => {
+                  const stamp = activeSyncDraft.stamps[index];
+                  return (
+                    <li key={index}>
+                      <button
+                        className={index === activeSyncDraft.cursor ? "sync-line sync-line-current" : "sync-line"}
+                        onClick={() => handleSyncSelectLine(index)}
+                        type="button"
+                      >
+                        <span className="sync-line-time">
+                          {stamp === null ? "--:--" : formatDuration(stamp / 1000)}
+                        </span>
+                        {line}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+
+          <h2>Playback Transitions</h2>
+          <div className="mapping-grid">
+            <label className="mapping-row">
+              <span>Preload the next track for gapless playback</span>
+              <input
+                type="checkbox"
+                checked={playbackTransition.gapless}
+                onChange={(event) => {
+                  const gapless = event.target.checked;
+                  setPlaybackTransition((prev) => ({ ...prev, gapless }));
+                }}
+              />
+            </label>
+            <label className="mapping-row">
+              <span>
+                Crossfade: {playbackTransition.crossfadeSeconds > 0 ? `${playbackTransition.crossfadeSeconds.toFixed(1)}s` : "off"}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_CROSSFADE_SECONDS}
+                step={0.5}
+                value={playbackTransition.crossfadeSeconds}
+                onChange={(event) => {
+                  const crossfadeSeconds = Number(event.target.value);
+                  setPlaybackTransition((prev) => ({ ...prev, crossfadeSeconds }));
+                }}
+              />
+            </label>
+            <p className="hint">Lyrics and Bluetooth metadata switch halfway through a crossfade.</p>
+          </div>
+
+          <h2>Loudness</h2>
+          <div className="mapping-grid">
+            <label className="mapping-row">
+              <span>ReplayGain</span>
+              <select
+                value={replayGainSettings.mode}
+                onChange={(event) => {
+                  const mode = event.target.value as ReplayGainMode;
+                  setReplayGainSettings((prev) => ({ ...prev, mode }));
+                }}
+              >
+                {(Object.keys(REPLAY_GAIN_MODE_LABELS) as ReplayGainMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {REPLAY_GAIN_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="mapping-row">
+              <span>
+                Pre-amp: {replayGainSettings.preampDb > 0 ? "+" : ""}
+                {replayGainSettings.preampDb.toFixed(1)} dB
+              </span>
+              <input
+                type="range"
+                min={MIN_PREAMP_DB}
+                max={MAX_PREAMP_DB}
+                step={0.5}
+                value={replayGainSettings.preampDb}
+                onChange={(event) => {
+                  const preampDb = Number(event.target.value);
+                  setReplayGainSettings((prev) => ({ ...prev, preampDb }));
+                }}
+              />
+            </label>
+            <label className="mapping-row">
+              <span>Prevent clipping using peak tags</span>
+              <input
+                type="checkbox"
+                checked={replayGainSettings.preventClipping}
+                onChange={(event) => {
+                  const preventClipping = event.target.checked;
+                  setReplayGainSettings((prev) => ({ ...prev, preventClipping }));
+                }}
+              />
+            </label>
+            <label className="mapping-row">
+              <span>Estimate loudness for untagged tracks</span>
+              <input
+                type="checkbox"
+                checked={replayGainSettings.estimateMissing}
+                onChange={(event) => {
+                  const estimateMissing = event.target.checked;
+                  setReplayGainSettings((prev) => ({ ...prev, estimateMissing }));
+                }}
+              />
+            </label>
+            <p className="hint">
+              {currentTrackId && replayGainSettings.mode !== "off"
+                ? `Current track gain: ${(20 * Math.log10(trackGainMultiplier(currentTrackId))).toFixed(1)} dB.`
+                : "Reads ReplayGain and R128 tags. Untagged tracks play at their original level unless estimated."}
+            </p>
+          </div>
+
+          <h2>Equalizer</h2>
+          <div className="mapping-grid">
+            <label className="mapping-row">
+              <span>Bypass equalizer</span>
+              <input
+                type="checkbox"
+                checked={equalizerSettings.bypassed}
+                onChange={(event) => {
+                  const bypassed = event.target.checked;
+                  setEqualizerSettings((prev) => ({ ...prev, bypassed }));
+                }}
+              />
+            </label>
+            <label className="mapping-row">
+              <span>Preset</span>
+              <select
+                value={activeEqualizerPreset?.id ?? ""}
+                onChange={(event) => {
+                  const preset = equalizerPresets.find((candidate) => candidate.id === event.target.value);
+                  if (preset) {
+                    setEqualizerSettings((prev) => ({ ...prev, gains: preset.gains }));
+                  }
+                }}
+              >
+                {!activeEqualizerPreset && <option value="">Custom</option>}
+                {equalizerPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className={`eq-bands ${equalizerSettings.bypassed ? "eq-bands-bypassed" : ""}`}>
+              {EQUALIZER_FREQUENCIES.map((frequency, band) => (
+                <label key={frequency} className="eq-band">
+                  <span>
+                    {equalizerSettings.gains[band] > 0 ? "+" : ""}
+                    {equalizerSettings.gains[band]}
+                  </span>
+                  <input
+                    type="range"
+                    min={MIN_BAND_GAIN_DB}
+                    max={MAX_BAND_GAIN_DB}
+                    step={1}
+                    value={equalizerSettings.gains[band]}
+                    onChange={(event) => {
+                      handleEqualizerBandChange(band, Number(event.target.value));
+                    }}
+                  />
+                  <span>{formatBandFrequency(frequency)}</span>
+                </label>
+              ))}
+            </div>
+            <EqualizerPreview
+              gains={equalizerSettings.bypassed ? BUILT_IN_EQUALIZER_PRESETS[0].gains : equalizerSettings.gains}
+            />
+            <div className="queue-actions">
+              <button className="track-action" onClick={handleSaveEqualizerPreset} type="button">
+                Save as preset
+              </button>
+              {activeEqualizerPreset?.id.startsWith("user:") && (
+                <button
+                  className="track-action"
+                  onClick={() => handleDeleteEqualizerPreset(activeEqualizerPreset.id)}
+                  type="button"
+                >
+                  Delete "{activeEqualizerPreset.name}"
+                </button>
+              )}
+            </div>
+          </div>
+
+          <h2>Bluetooth Profiles</h2>
+          <p className="hint">
+            Keep a separate set of display settings for each car or head unit. Changes below are saved into the active
+            profile.
+          </p>
+          <div className="mapping-grid">
+            <label className="mapping-row">
+              <span>Active profile</span>
+              <select
+                value={activeBluetoothProfileId ?? ""}
+                onChange={(event) => handleSelectBluetoothProfile(event.target.value)}
+              >
+                {bluetoothProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="queue-actions">
+            <button className="track-action" onClick={handleDuplicateBluetoothProfile} type="button">
+              Duplicate
+            </button>
+            <button
+              className="track-action"
+              onClick={handleRenameBluetoothProfile}
+              type="button"
+              disabled={!activeBluetoothProfile}
+            >
+              Rename
+            </button>
+            <button
+              className="track-action"
+              onClick={handleDeleteBluetoothProfile}
+              type="button"
+              disabled={bluetoothProfiles.length <= 1}
+            >
+              Delete
+            </button>
+            <button
+              className="track-action"
+              onClick={handleExportBluetoothProfiles}
+              type="button"
+              disabled={bluetoothProfiles.length === 0}
+            >
+              Export
+            </button>
+            <label className="track-action">
+              Import
+              <input
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = "";
+                  if (file) {
+                    void handleImportBluetoothProfiles(file);
+                  }
+                }}
+              />
+            </label>
           </div>
+          {bluetoothProfileError && <div className="warning">{bluetoothProfileError}</div>}
 
           <h2>Bluetooth Metadata Mapping</h2>
           <div className="mapping-grid">
-            {(["title", "artist", "album"] as MetadataField[]).map((field) => (
+            {METADATA_FIELDS.map((field) => (
               <label key={field} className="mapping-row">
                 <span>{FIELD_LABELS[field]} field</span>
                 <select
                   value={fieldMapping[field]}
                   onChange={(event) => {
                     const value = event.target.value as LyricLineRole;
-                    setFieldMapping((prev) => ({
-                      ...prev,
-                      [field]: value,
+                    updateBluetoothSettings((settings) => ({
+                      fieldMapping: { ...settings.fieldMapping, [field]: value },
                     }));
                   }}
                 >
-                  {(["previous", "current", "next"] as LyricLineRole[]).map((role) => (
+                  {LYRIC_LINE_ROLES.map((role) => (
                     <option key={role} value={role}>
                       {LINE_ROLE_LABELS[role]}
                     </option>
@@ -986,12 +4295,12 @@ export default function App() {
               <span>Visible width scale ({lyricWidthScale.toFixed(2)}x)</span>
               <input
                 type="range"
-                min={0.7}
-                max={1.1}
+                min={MIN_LYRIC_WIDTH_SCALE}
+                max={MAX_LYRIC_WIDTH_SCALE}
                 step={0.01}
                 value={lyricWidthScale}
                 onChange={(event) => {
-                  setLyricWidthScale(Number(event.target.value));
+                  updateBluetoothSettings(() => ({ lyricWidthScale: Number(event.target.value) }));
                 }}
               />
             </label>
@@ -1003,6 +4312,64 @@ export default function App() {
             </div>
           </div>
 
+          <h2>Head Unit Calibration</h2>
+          {calibration ? (
+            <>
+              <p className="hint">
+                Step {calibration.step + 1} of {GLYPH_CLASSES.length}: your car should now show a ruler of{" "}
+                {GLYPH_CLASS_LABELS[GLYPH_CLASSES[calibration.step]]}. Tap the last character it shows in full.
+              </p>
+              <div className="calibration-ruler">
+                {splitGraphemes(CALIBRATION_RULERS[GLYPH_CLASSES[calibration.step]]).map((character, index) => (
+                  <button
+                    key={index}
+                    className="ruler-character"
+                    onClick={() => handleCalibrationPick(index + 1)}
+                    title={`${index + 1} characters`}
+                    type="button"
+                  >
+                    {character}
+                  </button>
+                ))}
+              </div>
+              <div className="queue-actions">
+                <button
+                  className="track-action"
+                  onClick={() => setCalibration((prev) => prev && { ...prev })}
+                  type="button"
+                >
+                  Send ruler again
+                </button>
+                <button className="track-action" onClick={() => setCalibration(null)} type="button">
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="hint">
+                {widthModel
+                  ? `Calibrated for this profile: ${widthModel.regular} regular, ${widthModel.narrow} narrow and ${widthModel.wide} wide characters per line.`
+                  : "Line width is estimated from a desktop font. Calibrate to measure what your head unit actually shows; start playback first so the car displays track info."}
+              </p>
+              <div className="queue-actions">
+                <button
+                  className="track-action"
+                  onClick={() => setCalibration({ step: 0, capacities: {} })}
+                  type="button"
+                  disabled={!("mediaSession" in navigator)}
+                >
+                  {widthModel ? "Calibrate again" : "Calibrate"}
+                </button>
+                {widthModel && (
+                  <button className="track-action" onClick={() => updateBluetoothSettings(() => ({ widthModel: null }))} type="button">
+                    Use estimated width
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+
           <h2>Song Metadata Hold</h2>
           <div className="mapping-grid">
             <label className="mapping-row">
@@ -1014,7 +4381,7 @@ export default function App() {
                 step={0.1}
                 value={minSongMetadataSeconds}
                 onChange={(event) => {
-                  setMinSongMetadataSeconds(Number(event.target.value));
+                  updateBluetoothSettings(() => ({ minSongMetadataSeconds: Number(event.target.value) }));
                 }}
               />
             </label>
@@ -1023,6 +4390,16 @@ export default function App() {
 
           <h2>Bluetooth Scroll Timing</h2>
           <div className="mapping-grid">
+            <label className="mapping-row">
+              <span>Scrolling style</span>
+              <select value={scrollMode} onChange={(event) => updateBluetoothSettings(() => ({ scrollMode: event.target.value as ScrollMode }))}>
+                {SCROLL_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {SCROLL_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
             <label className="mapping-row">
               <span>Start dwell ({Math.round(scrollDwellStart * 100)}%)</span>
               <input
@@ -1049,7 +4426,10 @@ export default function App() {
                 }}
               />
             </label>
-            <p className="hint">Scroll portion: {Math.round(scrollPortion * 100)}% of line duration.</p>
+            <p className="hint">
+              Scroll portion: {Math.round(scrollPortion * 100)}% of line duration. Word by word keeps whole words
+              together; page by page shows the line in non-overlapping chunks.
+            </p>
           </div>
 
           <h2>Metadata Update Interval</h2>
@@ -1063,12 +4443,89 @@ export default function App() {
                 step={10}
                 value={metadataRefreshIntervalMs}
                 onChange={(event) => {
-                  setMetadataRefreshIntervalMs(Number(event.target.value));
+                  updateBluetoothSettings(() => ({ metadataRefreshIntervalMs: Number(event.target.value) }));
                 }}
               />
             </label>
             <p className="hint">Updates send only when text changes, throttled so sends are at least this far apart.</p>
           </div>
+
+          <h2>Bluetooth Timeline Simulator</h2>
+          {bluetoothSimulation ? (
+            <>
+              <p className="hint">
+                Replays the current track's lyrics with the active profile and shows exactly what the head unit would
+                receive. {bluetoothSimulation.publishes.length} updates would be sent.
+              </p>
+              <HeadUnitPreview
+                payload={simulatedPublish?.payload ?? null}
+                maxWidth={headUnitWidth}
+                measureWidth={measureTextWidth}
+              />
+              <div className="controls">
+                <button
+                  onClick={() => {
+                    if (simulationPositionMs >= simulationDurationMs) {
+                      setSimulationPositionMs(0);
+                    }
+                    setIsSimulationPlaying((prev) => !prev);
+                  }}
+                  type="button"
+                >
+                  {isSimulationPlaying ? "Pause preview" : "Play preview"}
+                </button>
+                <select
+                  value={simulationSpeed}
+                  onChange={(event) => setSimulationSpeed(Number(event.target.value))}
+                  aria-label="Preview speed"
+                >
+                  {SIMULATION_SPEEDS.map((speed) => (
+                    <option key={speed} value={speed}>
+                      {speed}x
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="timeline">
+                <span>{formatDuration(simulationPositionMs / 1000)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={simulationDurationMs}
+                  step={LYRIC_TIMELINE_TICK_MS}
+                  value={Math.min(simulationPositionMs, simulationDurationMs)}
+                  onChange={(event) => setSimulationPositionMs(Number(event.target.value))}
+                />
+                <span>{formatDuration(simulationDurationMs / 1000)}</span>
+              </div>
+              {flaggedSimulationLines.length > 0 ? (
+                <ol className="simulation-issues">
+                  {flaggedSimulationLines.map((line) => (
+                    <li key={line.lineIndex}>
+                      <button
+                        className="simulation-issue"
+                        onClick={() => setSimulationPositionMs(line.startMs)}
+                        type="button"
+                      >
+                        <span className="simulation-issue-time">{formatDuration(line.startMs / 1000)}</span>
+                        <span>
+                          {line.text}
+                          <small>
+                            {line.issues.map((issue) => SIMULATION_ISSUE_LABELS[issue]).join(", ")} ({line.shownWindows} of{" "}
+                            {line.windowCount} windows shown, shortest {Math.round(line.shortestWindowMs)}ms)
+                          </small>
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="hint">Every line shows all of its windows at the current settings.</p>
+              )}
+            </>
+          ) : (
+            <p className="hint">Play a track with synced lyrics to simulate what the head unit would show.</p>
+          )}
         </section>
       </main>
     </div>
@@ -0,0 +1,65 @@
+import { createEqualizerFilters, equalizerHeadroomDb } from "./equalizer";
+
+export interface AudioGraph {
+  context: AudioContext;
+  elementGains: Map<HTMLAudioElement, GainNode>;
+  output: GainNode;
+  equalizerInput: GainNode;
+  equalizer: BiquadFilterNode[];
+  equalizerBypassed: boolean;
+}
+
+export function createAudioGraph(elements: HTMLAudioElement[]): AudioGraph {
+  const context = new AudioContext();
+  const output = context.createGain();
+  output.connect(context.destination);
+
+  const elementGains = new Map<HTMLAudioElement, GainNode>();
+  for (const element of elements) {
+    const gain = context.createGain();
+    context.createMediaElementSource(element).connect(gain).connect(output);
+    elementGains.set(element, gain);
+  }
+
+  const equalizerInput = context.createGain();
+  const equalizer = createEqualizerFilters(context);
+  equalizerInput.connect(equalizer[0]);
+  for (let band = 0; band < equalizer.length - 1; band += 1) {
+    equalizer[band].connect(equalizer[band + 1]);
+  }
+  equalizer[equalizer.length - 1].connect(context.destination);
+
+  return { context, elementGains, output, equalizerInput, equalizer, equalizerBypassed: true };
+}
+
+export function setElementGain(graph: AudioGraph, element: HTMLAudioElement, value: number) {
+  const gain = graph.elementGains.get(element);
+  if (gain) {
+    gain.gain.setTargetAtTime(value, graph.context.currentTime, 0.05);
+  }
+}
+
+export function setEqualizer(graph: AudioGraph, gains: number[] | null) {
+  const bypassed = gains === null;
+  if (bypassed !== graph.equalizerBypassed) {
+    graph.output.disconnect();
+    graph.output.connect(bypassed ? graph.context.destination : graph.equalizerInput);
+    graph.equalizerBypassed = bypassed;
+  }
+
+  if (gains) {
+    const headroom = 10 ** (-equalizerHeadroomDb(gains) / 20);
+    graph.equalizerInput.gain.setTargetAtTime(headroom, graph.context.currentTime, 0.02);
+    graph.equalizer.forEach((filter, band) => {
+      filter.gain.setTargetAtTime(gains[band] ?? 0, graph.context.currentTime, 0.02);
+    });
+  }
+}
+
+export function rampOutputGain(graph: AudioGraph, value: number, seconds: number) {
+  const gain = graph.output.gain;
+  const now = graph.context.currentTime;
+  gain.cancelScheduledValues(now);
+  gain.setValueAtTime(gain.value, now);
+  gain.linearRampToValueAtTime(value, now + Math.max(0.01, seconds));
+}
@@ -0,0 +1,61 @@
+import { LrcTags, LyricLine, formatLrc } from "./lrc";
+
+interface SyncSnapshot {
+  stamps: Array<number | null>;
+  cursor: number;
+}
+
+export interface SyncDraft {
+  trackId: string;
+  lines: string[];
+  stamps: Array<number | null>;
+  cursor: number;
+  past: SyncSnapshot[];
+}
+
+const MAX_UNDO_STEPS = 200;
+
+export function createSyncDraft(trackId: string, text: string): SyncDraft {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  return { trackId, lines, stamps: lines.map(() => null), cursor: 0, past: [] };
+}
+
+function withHistory(draft: SyncDraft, stamps: Array<number | null>, cursor: number): SyncDraft {
+  const past = [...draft.past, { stamps: draft.stamps, cursor: draft.cursor }].slice(-MAX_UNDO_STEPS);
+  return { ...draft, stamps, cursor, past };
+}
+
+export function stampCurrentLine(draft: SyncDraft, timeMs: number): SyncDraft {
+  if (draft.cursor >= draft.lines.length) {
+    return draft;
+  }
+  const stamps = draft.stamps.map((stamp, index) => (index === draft.cursor ? Math.max(0, Math.round(timeMs)) : stamp));
+  return withHistory(draft, stamps, draft.cursor + 1);
+}
+
+export function moveSyncCursor(draft: SyncDraft, index: number): SyncDraft {
+  const cursor = Math.max(0, Math.min(draft.lines.length, index));
+  return cursor === draft.cursor ? draft : withHistory(draft, draft.stamps, cursor);
+}
+
+export function undoSyncStep(draft: SyncDraft): SyncDraft {
+  const previous = draft.past[draft.past.length - 1];
+  if (!previous) {
+    return draft;
+  }
+  return { ...draft, stamps: previous.stamps, cursor: previous.cursor, past: draft.past.slice(0, -1) };
+}
+
+export function syncDraftLyrics(draft: SyncDraft): LyricLine[] {
+  return draft.lines
+    .map((text, index) => ({ timeMs: draft.stamps[index], text }))
+    .filter((line): line is LyricLine => line.timeMs !== null)
+    .sort((a, b) => a.timeMs - b.timeMs);
+}
+
+export function syncDraftToLrc(draft: SyncDraft, tags: Pick<LrcTags, "title" | "artist" | "album">): string {
+  return formatLrc(syncDraftLyrics(draft), tags);
+}
@@ -0,0 +1,231 @@
+import { TrackMetadata } from "./metadata";
+
+export type MetadataField = "title" | "artist" | "album";
+export type LyricLineRole = "previous" | "current" | "next" | "translation";
+export type ScrollMode = "grapheme" | "word" | "page";
+export type GlyphClass = "narrow" | "regular" | "wide";
+
+// how many characters of each class fit across the head unit's display
+export type CharacterWidthModel = Record<GlyphClass, number>;
+
+export interface BluetoothDisplaySettings {
+  fieldMapping: Record<MetadataField, LyricLineRole>;
+  lyricWidthScale: number;
+  scrollDwellStart: number;
+  scrollDwellEnd: number;
+  scrollMode: ScrollMode;
+  widthModel: CharacterWidthModel | null;
+  metadataRefreshIntervalMs: number;
+  minSongMetadataSeconds: number;
+}
+
+export interface BluetoothProfile extends BluetoothDisplaySettings {
+  id: string;
+  name: string;
+}
+
+export interface BluetoothMetadataPayload {
+  title: string;
+  artist: string;
+  album: string;
+  artworkUrl?: string;
+}
+
+export const METADATA_FIELDS: MetadataField[] = ["title", "artist", "album"];
+export const LYRIC_LINE_ROLES: LyricLineRole[] = ["previous", "current", "next", "translation"];
+export const SCROLL_MODES: ScrollMode[] = ["grapheme", "word", "page"];
+export const GLYPH_CLASSES: GlyphClass[] = ["regular", "narrow", "wide"];
+
+export const MAX_CHARACTER_CAPACITY = 200;
+
+// every ruler is as long as the widest display the model can describe
+function calibrationRuler(pattern: string): string {
+  return pattern.repeat(Math.ceil(MAX_CHARACTER_CAPACITY / pattern.length)).slice(0, MAX_CHARACTER_CAPACITY);
+}
+
+export const CALIBRATION_RULERS: Record<GlyphClass, string> = {
+  regular: calibrationRuler("0123456789ABCDEFGHJKLNOPQRSTUVXYZabcdeghknopqsuvxyz"),
+  narrow: calibrationRuler("iiiiliiii|"),
+  wide: calibrationRuler("MMMMWMMMM@"),
+};
+
+export const DEFAULT_FIELD_MAPPING: Record<MetadataField, LyricLineRole> = {
+  title: "previous",
+  artist: "current",
+  album: "next",
+};
+
+export const DEFAULT_LYRIC_WIDTH_SCALE = 1;
+export const MIN_LYRIC_WIDTH_SCALE = 0.7;
+export const MAX_LYRIC_WIDTH_SCALE = 1.1;
+export const DEFAULT_METADATA_REFRESH_INTERVAL_MS = 100;
+export const MIN_METADATA_REFRESH_INTERVAL_MS = 10;
+export const MAX_METADATA_REFRESH_INTERVAL_MS = 5000;
+export const DEFAULT_MIN_SONG_METADATA_SECONDS = 5;
+export const MIN_SONG_METADATA_SECONDS = 0;
+export const MAX_SONG_METADATA_SECONDS = 30;
+export const DEFAULT_SCROLL_DWELL_START = 0.25;
+export const DEFAULT_SCROLL_DWELL_END = 0.25;
+export const MIN_SCROLL_PORTION = 0.1;
+export const DEFAULT_SCROLL_MODE: ScrollMode = "grapheme";
+
+export const DEFAULT_BLUETOOTH_SETTINGS: BluetoothDisplaySettings = {
+  fieldMapping: DEFAULT_FIELD_MAPPING,
+  lyricWidthScale: DEFAULT_LYRIC_WIDTH_SCALE,
+  scrollDwellStart: DEFAULT_SCROLL_DWELL_START,
+  scrollDwellEnd: DEFAULT_SCROLL_DWELL_END,
+  scrollMode: DEFAULT_SCROLL_MODE,
+  widthModel: null,
+  metadataRefreshIntervalMs: DEFAULT_METADATA_REFRESH_INTERVAL_MS,
+  minSongMetadataSeconds: DEFAULT_MIN_SONG_METADATA_SECONDS,
+};
+
+const EMPTY_METADATA_PLACEHOLDER = " ";
+
+const PROFILE_EXPORT_FORMAT = "bars-player-bluetooth-profiles";
+const PROFILE_EXPORT_VERSION = 1;
+
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function clampNumber(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isLineRole(value: unknown): value is LyricLineRole {
+  return typeof value === "string" && (LYRIC_LINE_ROLES as string[]).includes(value);
+}
+
+export function isScrollMode(value: unknown): value is ScrollMode {
+  return typeof value === "string" && (SCROLL_MODES as string[]).includes(value);
+}
+
+const WIDE_GLYPH =
+  /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6MW@%]|\p{Extended_Pictographic}/u;
+const NARROW_GLYPH = /^[\s!"'(),\-./:;I[\]`fijlrt|]$/;
+
+export function glyphClass(grapheme: string): GlyphClass {
+  if (NARROW_GLYPH.test(grapheme)) {
+    return "narrow";
+  }
+  return WIDE_GLYPH.test(grapheme) ? "wide" : "regular";
+}
+
+export function normalizeWidthModel(raw: unknown): CharacterWidthModel | null {
+  const model = raw as Partial<CharacterWidthModel> | null | undefined;
+  if (!model || typeof model !== "object") {
+    return null;
+  }
+  const capacity = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 1
+      ? Math.min(MAX_CHARACTER_CAPACITY, Math.round(value))
+      : null;
+  const regular = capacity(model.regular);
+  const narrow = capacity(model.narrow);
+  const wide = capacity(model.wide);
+  return regular && narrow && wide ? { regular, narrow, wide } : null;
+}
+
+export function normalizeBluetoothSettings(raw: Partial<BluetoothDisplaySettings>): BluetoothDisplaySettings {
+  const mapping = raw.fieldMapping ?? DEFAULT_FIELD_MAPPING;
+  const start = clampNumber(finiteOr(raw.scrollDwellStart, DEFAULT_SCROLL_DWELL_START), 0, 0.9);
+  const end = clampNumber(finiteOr(raw.scrollDwellEnd, DEFAULT_SCROLL_DWELL_END), 0, 0.9);
+  const overflow = Math.max(0, start + end - (1 - MIN_SCROLL_PORTION));
+
+  return {
+    fieldMapping: {
+      title: isLineRole(mapping.title) ? mapping.title : DEFAULT_FIELD_MAPPING.title,
+      artist: isLineRole(mapping.artist) ? mapping.artist : DEFAULT_FIELD_MAPPING.artist,
+      album: isLineRole(mapping.album) ? mapping.album : DEFAULT_FIELD_MAPPING.album,
+    },
+    lyricWidthScale: clampNumber(
+      finiteOr(raw.lyricWidthScale, DEFAULT_LYRIC_WIDTH_SCALE),
+      MIN_LYRIC_WIDTH_SCALE,
+      MAX_LYRIC_WIDTH_SCALE
+    ),
+    scrollDwellStart: Math.max(0, start - overflow / 2),
+    scrollDwellEnd: Math.max(0, end - overflow / 2),
+    scrollMode: isScrollMode(raw.scrollMode) ? raw.scrollMode : DEFAULT_SCROLL_MODE,
+    widthModel: normalizeWidthModel(raw.widthModel),
+    metadataRefreshIntervalMs: clampNumber(
+      Math.round(finiteOr(raw.metadataRefreshIntervalMs, DEFAULT_METADATA_REFRESH_INTERVAL_MS)),
+      MIN_METADATA_REFRESH_INTERVAL_MS,
+      MAX_METADATA_REFRESH_INTERVAL_MS
+    ),
+    minSongMetadataSeconds: clampNumber(
+      finiteOr(raw.minSongMetadataSeconds, DEFAULT_MIN_SONG_METADATA_SECONDS),
+      MIN_SONG_METADATA_SECONDS,
+      MAX_SONG_METADATA_SECONDS
+    ),
+  };
+}
+
+let profileCounter = 0;
+
+export function createBluetoothProfile(name: string, settings: BluetoothDisplaySettings): BluetoothProfile {
+  profileCounter += 1;
+  return { ...normalizeBluetoothSettings(settings), id: `${Date.now().toString(36)}-${profileCounter}`, name };
+}
+
+export function uniqueProfileName(profiles: BluetoothProfile[], name: string): string {
+  const names = new Set(profiles.map((profile) => profile.name));
+  if (!names.has(name)) {
+    return name;
+  }
+  let suffix = 2;
+  while (names.has(`${name} (${suffix})`)) {
+    suffix += 1;
+  }
+  return `${name} (${suffix})`;
+}
+
+export function exportBluetoothProfiles(profiles: BluetoothProfile[]): string {
+  return JSON.stringify(
+    {
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: profiles.map((profile) => ({ name: profile.name, ...normalizeBluetoothSettings(profile) })),
+    },
+    null,
+    2
+  );
+}
+
+export function parseBluetoothProfileExport(text: string): Array<{ name: string; settings: BluetoothDisplaySettings }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The profile file is not valid JSON.");
+  }
+
+  const payload = data as { format?: unknown; profiles?: unknown };
+  if (!payload || payload.format !== PROFILE_EXPORT_FORMAT || !Array.isArray(payload.profiles)) {
+    throw new Error("The file does not contain Bluetooth display profiles.");
+  }
+
+  return payload.profiles
+    .filter((profile): profile is Partial<BluetoothProfile> => Boolean(profile) && typeof profile === "object")
+    .map((profile) => ({
+      name: typeof profile.name === "string" && profile.name.trim() ? profile.name.trim() : "Imported profile",
+      settings: normalizeBluetoothSettings(profile),
+    }));
+}
+
+function metadataFieldValueOrPlaceholder(text: string): string {
+  return text.trim().length > 0 ? text : EMPTY_METADATA_PLACEHOLDER;
+}
+
+export function buildMetadataPayload(
+  metadata: Pick<TrackMetadata, "title" | "artist" | "album" | "artworkUrl">,
+  lyricWindow: Record<LyricLineRole, string> | null,
+  fieldMapping: Record<MetadataField, LyricLineRole>
+): BluetoothMetadataPayload {
+  return {
+    title: metadataFieldValueOrPlaceholder(lyricWindow ? lyricWindow[fieldMapping.title] : metadata.title),
+    artist: metadataFieldValueOrPlaceholder(lyricWindow ? lyricWindow[fieldMapping.artist] : metadata.artist),
+    album: metadataFieldValueOrPlaceholder(lyricWindow ? lyricWindow[fieldMapping.album] : metadata.album),
+    artworkUrl: metadata.artworkUrl,
+  };
+}
@@ -0,0 +1,111 @@
+import { TrackNode } from "./fs";
+import { TrackTags } from "./metadata";
+
+export type LibraryView = "folders" | "artists" | "albums" | "genres";
+
+export interface BrowseGroup {
+  id: string;
+  name: string;
+  tracks: TrackNode[];
+  groups: BrowseGroup[];
+}
+
+const UNKNOWN_ARTIST = "Unknown artist";
+const UNKNOWN_ALBUM = "Unknown album";
+const UNKNOWN_GENRE = "Unknown genre";
+
+function albumArtistOf(tags: TrackTags | undefined): string {
+  return tags?.albumArtist || tags?.artist || UNKNOWN_ARTIST;
+}
+
+function compareByTagOrder(tags: Record<string, TrackTags>) {
+  return (a: TrackNode, b: TrackNode) => {
+    const left = tags[a.id];
+    const right = tags[b.id];
+    const discDelta = (left?.discNumber ?? 1) - (right?.discNumber ?? 1);
+    if (discDelta !== 0) {
+      return discDelta;
+    }
+    const trackDelta = (left?.trackNumber ?? Number.MAX_SAFE_INTEGER) - (right?.trackNumber ?? Number.MAX_SAFE_INTEGER);
+    if (trackDelta !== 0) {
+      return trackDelta;
+    }
+    return a.path.localeCompare(b.path);
+  };
+}
+
+function groupTracks(
+  tracks: TrackNode[],
+  keyOf: (track: TrackNode) => { id: string; name: string }
+): BrowseGroup[] {
+  const groups = new Map<string, BrowseGroup>();
+  for (const track of tracks) {
+    const { id, name } = keyOf(track);
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, name, tracks: [], groups: [] };
+      groups.set(id, group);
+    }
+    group.tracks.push(track);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function groupByAlbum(
+  tracks: TrackNode[],
+  tags: Record<string, TrackTags>,
+  idPrefix = "album"
+): BrowseGroup[] {
+  const albums = groupTracks(tracks, (track) => {
+    const trackTags = tags[track.id];
+    const artist = albumArtistOf(trackTags);
+    const album = trackTags?.album || UNKNOWN_ALBUM;
+    return { id: `${idPrefix}:${artist}\u0000${album}`, name: `${album} — ${artist}` };
+  });
+  const compare = compareByTagOrder(tags);
+  for (const album of albums) {
+    album.tracks.sort(compare);
+  }
+  return albums;
+}
+
+export function groupByAlbumArtist(tracks: TrackNode[], tags: Record<string, TrackTags>): BrowseGroup[] {
+  const artists = groupTracks(tracks, (track) => {
+    const artist = albumArtistOf(tags[track.id]);
+    return { id: `artist:${artist}`, name: artist };
+  });
+  for (const artist of artists) {
+    artist.groups = groupByAlbum(artist.tracks, tags, artist.id).map((album) => ({
+      ...album,
+      name: tags[album.tracks[0].id]?.album || UNKNOWN_ALBUM,
+    }));
+    artist.tracks = artist.groups.flatMap((album) => album.tracks);
+  }
+  return artists;
+}
+
+export function groupByGenre(tracks: TrackNode[], tags: Record<string, TrackTags>): BrowseGroup[] {
+  const genres = groupTracks(tracks, (track) => {
+    const genre = tags[track.id]?.genre || UNKNOWN_GENRE;
+    return { id: `genre:${genre}`, name: genre };
+  });
+  for (const genre of genres) {
+    genre.groups = groupByAlbum(genre.tracks, tags, genre.id);
+    genre.tracks = genre.groups.flatMap((album) => album.tracks);
+  }
+  return genres;
+}
+
+export function buildBrowseGroups(
+  view: Exclude<LibraryView, "folders">,
+  tracks: TrackNode[],
+  tags: Record<string, TrackTags>
+): BrowseGroup[] {
+  if (view === "artists") {
+    return groupByAlbumArtist(tracks, tags);
+  }
+  if (view === "genres") {
+    return groupByGenre(tracks, tags);
+  }
+  return groupByAlbum(tracks, tags);
+}
@@ -0,0 +1,79 @@
+export interface EqualizerPreset {
+  id: string;
+  name: string;
+  gains: number[];
+}
+
+export interface EqualizerSettings {
+  bypassed: boolean;
+  gains: number[];
+}
+
+export const EQUALIZER_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const MIN_BAND_GAIN_DB = -12;
+export const MAX_BAND_GAIN_DB = 12;
+
+const BAND_Q = 1.41;
+
+export const BUILT_IN_EQUALIZER_PRESETS: EqualizerPreset[] = [
+  { id: "builtin:flat", name: "Flat", gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: "builtin:car", name: "Car", gains: [-2, 2, 3, 1, -1, -1, 0, 2, 3, 2] },
+  { id: "builtin:earbuds", name: "Earbuds", gains: [4, 3, 1, 0, -1, 0, 1, 2, 2, 1] },
+  { id: "builtin:bass", name: "Bass boost", gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: "builtin:vocal", name: "Vocal", gains: [-2, -2, -1, 1, 3, 3, 2, 1, 0, -1] },
+  { id: "builtin:treble", name: "Treble boost", gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+];
+
+export const DEFAULT_EQUALIZER_SETTINGS: EqualizerSettings = {
+  bypassed: true,
+  gains: BUILT_IN_EQUALIZER_PRESETS[0].gains,
+};
+
+export function normalizeBandGains(gains: unknown): number[] {
+  const values = Array.isArray(gains) ? gains : [];
+  return EQUALIZER_FREQUENCIES.map((_, band) => {
+    const value = Number(values[band]);
+    return Number.isFinite(value) ? Math.min(MAX_BAND_GAIN_DB, Math.max(MIN_BAND_GAIN_DB, value)) : 0;
+  });
+}
+
+export function matchingPreset(presets: EqualizerPreset[], gains: number[]): EqualizerPreset | undefined {
+  return presets.find((preset) => preset.gains.every((gain, band) => gain === gains[band]));
+}
+
+export function createEqualizerFilters(context: BaseAudioContext): BiquadFilterNode[] {
+  return EQUALIZER_FREQUENCIES.map((frequency, band) => {
+    const filter = context.createBiquadFilter();
+    filter.type = band === 0 ? "lowshelf" : band === EQUALIZER_FREQUENCIES.length - 1 ? "highshelf" : "peaking";
+    filter.frequency.value = frequency;
+    filter.Q.value = BAND_Q;
+    filter.gain.value = 0;
+    return filter;
+  });
+}
+
+// the preview graph only needs filters to ask for their response, so one set is kept for every redraw
+let responseFilters: BiquadFilterNode[] | null = null;
+
+export function equalizerResponse(gains: number[], frequencies: Float32Array<ArrayBuffer>): Float32Array {
+  responseFilters ??= createEqualizerFilters(new OfflineAudioContext(1, 1, 44100));
+  const totalDb = new Float32Array(frequencies.length);
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+
+  responseFilters.forEach((filter, band) => {
+    filter.gain.value = gains[band] ?? 0;
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let index = 0; index < frequencies.length; index += 1) {
+      totalDb[index] += 20 * Math.log10(magnitude[index]);
+    }
+  });
+
+  return totalDb;
+}
+
+// the largest boost is taken off the input so the equalizer cannot push a track the pre-amp kept below full scale
+// into clipping
+export function equalizerHeadroomDb(gains: number[]): number {
+  return Math.max(0, ...gains);
+}
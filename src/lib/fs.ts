@@ -1,10 +1,23 @@
+import { DirectorySource, FileSource, listDirectory, readFileSource } from "./source";
+
+export type AudioExtension = "mp3" | "flac" | "ogg" | "oga" | "opus" | "m4a" | "mp4" | "aac" | "wav";
+
 export interface TrackNode {
   id: string;
   name: string;
   path: string;
-  extension: "mp3" | "flac";
-  fileHandle: FileSystemFileHandle;
-  lrcHandle?: FileSystemFileHandle;
+  extension: AudioExtension;
+  supported: boolean;
+  source: FileSource;
+  lrcSource?: FileSource;
+}
+
+export interface PlaylistFile {
+  id: string;
+  name: string;
+  path: string;
+  directoryPath: string;
+  source: FileSource;
 }
 
 export interface DirectoryNode {
@@ -15,7 +28,27 @@ export interface DirectoryNode {
   tracks: TrackNode[];
 }
 
-const AUDIO_EXTENSIONS = new Set(["mp3", "flac"]);
+export const AUDIO_MIME_TYPES: Record<AudioExtension, string> = {
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: 'audio/ogg; codecs="opus"',
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+};
+
+// .m4a and .mp4 hold codecs such as ALAC that the element may not decode even when it plays the container
+const MP4_CODEC_MIME_TYPES: Record<string, string> = {
+  alac: 'audio/mp4; codecs="alac"',
+  "mpeg-4/aac": 'audio/mp4; codecs="mp4a.40.2"',
+  flac: 'audio/mp4; codecs="flac"',
+  opus: 'audio/mp4; codecs="opus"',
+};
+
+const PLAYLIST_EXTENSIONS = new Set(["m3u", "m3u8"]);
 
 function pathJoin(base: string, segment: string): string {
   return base ? `${base}/${segment}` : segment;
@@ -37,41 +70,155 @@ function baseName(name: string): string {
   return name.slice(0, dotIndex);
 }
 
-interface ScanResult {
+const playbackSupportCache = new Map<string, boolean>();
+
+function isAudioExtension(ext: string): ext is AudioExtension {
+  return ext in AUDIO_MIME_TYPES;
+}
+
+function canPlayMimeType(mimeType: string): boolean {
+  const cached = playbackSupportCache.get(mimeType);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const probe = document.createElement("audio");
+  const supported = probe.canPlayType(mimeType) !== "";
+  playbackSupportCache.set(mimeType, supported);
+  return supported;
+}
+
+export function canPlayExtension(extension: AudioExtension): boolean {
+  return canPlayMimeType(AUDIO_MIME_TYPES[extension]);
+}
+
+// the codec comes from the tags, so it is only known once a track has been indexed
+export function canPlayCodec(extension: AudioExtension, codec?: string): boolean {
+  const mimeType =
+    codec && (extension === "m4a" || extension === "mp4") ? MP4_CODEC_MIME_TYPES[codec.toLowerCase()] : undefined;
+  return mimeType ? canPlayMimeType(mimeType) : canPlayExtension(extension);
+}
+
+export function audioMimeTypeForName(name: string): string | undefined {
+  const ext = extensionOf(name);
+  return isAudioExtension(ext) ? AUDIO_MIME_TYPES[ext] : undefined;
+}
+
+export interface TrackFileInfo {
+  size: number;
+  lastModified: number;
+  lyricsLastModified?: number;
+}
+
+export interface ScanResult {
   root: DirectoryNode;
   flatTracks: TrackNode[];
+  fileInfo: Record<string, TrackFileInfo>;
+  playlists: PlaylistFile[];
+}
+
+export interface PreviousScan {
+  root: DirectoryNode;
+  fileInfo: Record<string, TrackFileInfo>;
 }
 
-export async function scanMusicTree(rootHandle: FileSystemDirectoryHandle): Promise<ScanResult> {
+export function flattenTracks(root: DirectoryNode): TrackNode[] {
   const allTracks: TrackNode[] = [];
+  const visit = (node: DirectoryNode) => {
+    for (const directory of node.directories) {
+      visit(directory);
+    }
+    allTracks.push(...node.tracks);
+  };
+  visit(root);
+  return allTracks;
+}
 
-  async function walkDirectory(
-    handle: FileSystemDirectoryHandle,
-    name: string,
-    parentPath: string
-  ): Promise<DirectoryNode> {
+export function withUnsupportedTracks(root: DirectoryNode, trackIds: Set<string>): DirectoryNode {
+  const directories = root.directories.map((directory) => withUnsupportedTracks(directory, trackIds));
+  const tracks = root.tracks.map((track) =>
+    track.supported && trackIds.has(track.id) ? { ...track, supported: false } : track
+  );
+  if (sameItems(directories, root.directories) && sameItems(tracks, root.tracks)) {
+    return root;
+  }
+  return { ...root, directories, tracks };
+}
+
+export function withTrackLyrics(root: DirectoryNode, trackId: string, lrcSource: FileSource): DirectoryNode {
+  const directories = root.directories.map((directory) => withTrackLyrics(directory, trackId, lrcSource));
+  const tracks = root.tracks.map((track) => (track.id === trackId ? { ...track, lrcSource } : track));
+  if (sameItems(directories, root.directories) && sameItems(tracks, root.tracks)) {
+    return root;
+  }
+  return { ...root, directories, tracks };
+}
+
+function indexDirectories(root: DirectoryNode): Map<string, DirectoryNode> {
+  const directories = new Map<string, DirectoryNode>();
+  const visit = (node: DirectoryNode) => {
+    directories.set(node.id, node);
+    node.directories.forEach(visit);
+  };
+  visit(root);
+  return directories;
+}
+
+function sameItems<T>(left: T[], right: T[]): boolean {
+  return left.length === right.length && left.every((item, index) => item === right[index]);
+}
+
+// rootPath prefixes every id under this root, so it has to stay unique across the library.
+// every file is opened for its size and modification time, which is cheap; a track whose audio is unchanged keeps
+// its previous node so the tree and the caller's parsed tags stay as they were
+export async function scanMusicTree(
+  rootSource: DirectorySource,
+  previous?: PreviousScan,
+  rootPath = rootSource.name
+): Promise<ScanResult> {
+  const previousDirectories = previous ? indexDirectories(previous.root) : new Map<string, DirectoryNode>();
+  const previousTracks = new Map<string, TrackNode>();
+  for (const directory of previousDirectories.values()) {
+    for (const track of directory.tracks) {
+      previousTracks.set(track.id, track);
+    }
+  }
+  const fileInfo: Record<string, TrackFileInfo> = {};
+  const playlists: PlaylistFile[] = [];
+
+  async function walkDirectory(directory: DirectorySource, name: string, parentPath: string): Promise<DirectoryNode> {
     const currentPath = pathJoin(parentPath, name);
-    const directoryEntries: Array<{ name: string; handle: FileSystemDirectoryHandle }> = [];
-    const audioEntries: Array<{ name: string; handle: FileSystemFileHandle; extension: "mp3" | "flac" }> = [];
-    const lrcByName = new Map<string, FileSystemFileHandle>();
+    const directoryEntries: Array<{ name: string; source: DirectorySource }> = [];
+    const audioEntries: Array<{ name: string; source: FileSource; extension: AudioExtension }> = [];
+    const lrcByName = new Map<string, FileSource>();
 
-    for await (const [entryName, entry] of handle.entries()) {
+    for (const entry of await listDirectory(directory)) {
       if (entry.kind === "directory") {
-        directoryEntries.push({ name: entryName, handle: entry as FileSystemDirectoryHandle });
+        directoryEntries.push({ name: entry.name, source: entry.source });
         continue;
       }
 
-      const ext = extensionOf(entryName);
-      if (AUDIO_EXTENSIONS.has(ext)) {
+      const ext = extensionOf(entry.name);
+      if (isAudioExtension(ext)) {
         audioEntries.push({
-          name: entryName,
-          handle: entry as FileSystemFileHandle,
-          extension: ext as "mp3" | "flac",
+          name: entry.name,
+          source: entry.source,
+          extension: ext,
         });
       }
 
       if (ext === "lrc") {
-        lrcByName.set(baseName(entryName), entry as FileSystemFileHandle);
+        lrcByName.set(baseName(entry.name), entry.source);
+      }
+
+      if (PLAYLIST_EXTENSIONS.has(ext)) {
+        playlists.push({
+          id: `${currentPath}/${entry.name}`,
+          name: baseName(entry.name),
+          path: `${currentPath}/${entry.name}`,
+          directoryPath: currentPath,
+          source: entry.source,
+        });
       }
     }
 
@@ -80,21 +227,54 @@ export async function scanMusicTree(rootHandle: FileSystemDirectoryHandle): Prom
 
     const directories: DirectoryNode[] = [];
     for (const child of directoryEntries) {
-      directories.push(await walkDirectory(child.handle, child.name, currentPath));
+      directories.push(await walkDirectory(child.source, child.name, currentPath));
     }
 
-    const tracks: TrackNode[] = audioEntries.map((entry) => {
-      const track: TrackNode = {
-        id: `${currentPath}/${entry.name}`,
+    const tracks: TrackNode[] = [];
+    for (const entry of audioEntries) {
+      const id = `${currentPath}/${entry.name}`;
+      const lrcSource = lrcByName.get(baseName(entry.name));
+      const supported = canPlayExtension(entry.extension);
+      const previousTrack = previousTracks.get(id);
+      const previousInfo = previous?.fileInfo[id];
+      const unchangedListing =
+        previousTrack &&
+        previousInfo &&
+        previousTrack.supported === supported &&
+        previousTrack.lrcSource?.name === lrcSource?.name;
+
+      const file = await readFileSource(entry.source);
+      const info: TrackFileInfo = {
+        size: file.size,
+        lastModified: file.lastModified,
+        lyricsLastModified: lrcSource ? (await readFileSource(lrcSource)).lastModified : undefined,
+      };
+      fileInfo[id] = info;
+
+      if (unchangedListing && previousInfo.size === info.size && previousInfo.lastModified === info.lastModified) {
+        tracks.push(previousTrack);
+        continue;
+      }
+
+      tracks.push({
+        id,
         name: entry.name,
-        path: `${currentPath}/${entry.name}`,
+        path: id,
         extension: entry.extension,
-        fileHandle: entry.handle,
-        lrcHandle: lrcByName.get(baseName(entry.name)),
-      };
-      allTracks.push(track);
-      return track;
-    });
+        supported,
+        source: entry.source,
+        lrcSource,
+      });
+    }
+
+    const previousDirectory = previousDirectories.get(currentPath);
+    if (
+      previousDirectory &&
+      sameItems(previousDirectory.directories, directories) &&
+      sameItems(previousDirectory.tracks, tracks)
+    ) {
+      return previousDirectory;
+    }
 
     return {
       id: currentPath,
@@ -105,6 +285,36 @@ export async function scanMusicTree(rootHandle: FileSystemDirectoryHandle): Prom
     };
   }
 
-  const root = await walkDirectory(rootHandle, rootHandle.name, "");
-  return { root, flatTracks: allTracks };
+  const root = await walkDirectory(rootSource, rootPath, "");
+  playlists.sort((a, b) => a.path.localeCompare(b.path));
+  return { root, flatTracks: flattenTracks(root), fileInfo, playlists };
+}
+
+export function uniqueRootPath(name: string, taken: string[]): string {
+  const names = new Set(taken);
+  if (!names.has(name)) {
+    return name;
+  }
+  let suffix = 2;
+  while (names.has(`${name} (${suffix})`)) {
+    suffix += 1;
+  }
+  return `${name} (${suffix})`;
+}
+
+export function sidecarLrcName(trackName: string): string {
+  return `${baseName(trackName)}.lrc`;
+}
+
+export async function parentDirectoryHandle(
+  rootHandle: FileSystemDirectoryHandle,
+  path: string
+): Promise<FileSystemDirectoryHandle> {
+  // paths start with the root folder name and end with the file name
+  const segments = path.split("/").slice(1, -1);
+  let handle = rootHandle;
+  for (const segment of segments) {
+    handle = await handle.getDirectoryHandle(segment);
+  }
+  return handle;
 }
@@ -0,0 +1,166 @@
+import { AudioExtension } from "./fs";
+import { ReplayGainInfo } from "./replaygain";
+
+export interface LoudnessEstimate {
+  size: number;
+  lastModified: number;
+  gainDb: number;
+  peak: number;
+}
+
+const REFERENCE_LOUDNESS_LUFS = -18;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+// decodeAudioData resamples to the context rate, which keeps the decoded excerpt small; K-weighting has
+// nothing of interest above 8 kHz
+const ANALYSIS_SAMPLE_RATE = 16000;
+// the browser decodes a file in one go, so only the start of a large file is analysed
+const MAX_ANALYSED_BYTES = 16 * 1024 * 1024;
+// mp4 files may keep their sample index at the end, so a truncated copy does not decode
+const UNSLICEABLE_EXTENSIONS = new Set<AudioExtension>(["m4a", "mp4"]);
+const SAMPLES_PER_YIELD = ANALYSIS_SAMPLE_RATE * 5;
+const BLOCKS_PER_YIELD = 500;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+function yieldToBrowser(): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, 0));
+}
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+// audio eq cookbook shelf with a slope of 1, the same curve as a BiquadFilterNode "highshelf"
+function highShelf(frequency: number, gainDb: number, sampleRate: number): Biquad {
+  const amplitude = Math.pow(10, gainDb / 40);
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / Math.SQRT2;
+  const shelf = 2 * Math.sqrt(amplitude) * alpha;
+  const a0 = amplitude + 1 - (amplitude - 1) * cos + shelf;
+  return {
+    b0: (amplitude * (amplitude + 1 + (amplitude - 1) * cos + shelf)) / a0,
+    b1: (-2 * amplitude * (amplitude - 1 + (amplitude + 1) * cos)) / a0,
+    b2: (amplitude * (amplitude + 1 + (amplitude - 1) * cos - shelf)) / a0,
+    a1: (2 * (amplitude - 1 - (amplitude + 1) * cos)) / a0,
+    a2: (amplitude + 1 - (amplitude - 1) * cos - shelf) / a0,
+  };
+}
+
+function highPass(frequency: number, q: number, sampleRate: number): Biquad {
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+async function kWeighted(samples: Float32Array, sampleRate: number): Promise<Float32Array> {
+  const stages = [highShelf(1681, 4, sampleRate), highPass(38, 0.5, sampleRate)];
+  const history = stages.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+  const output = new Float32Array(samples.length);
+
+  for (let index = 0; index < samples.length; index += 1) {
+    let value = samples[index];
+    stages.forEach((stage, stageIndex) => {
+      const state = history[stageIndex];
+      const filtered = stage.b0 * value + stage.b1 * state.x1 + stage.b2 * state.x2 - stage.a1 * state.y1 - stage.a2 * state.y2;
+      state.x2 = state.x1;
+      state.x1 = value;
+      state.y2 = state.y1;
+      state.y1 = filtered;
+      value = filtered;
+    });
+    output[index] = value;
+    if (index > 0 && index % SAMPLES_PER_YIELD === 0) {
+      await yieldToBrowser();
+    }
+  }
+  return output;
+}
+
+async function integratedLoudness(channels: Float32Array[], sampleRate: number): Promise<number> {
+  const length = channels[0]?.length ?? 0;
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const stepLength = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += stepLength) {
+    let sum = 0;
+    for (const samples of channels) {
+      for (let index = start; index < start + blockLength; index += 1) {
+        sum += samples[index] * samples[index];
+      }
+    }
+    const meanSquare = sum / blockLength;
+    if (meanSquare > 0 && blockLoudness(meanSquare) > ABSOLUTE_GATE_LUFS) {
+      blocks.push(meanSquare);
+    }
+    if ((start / stepLength) % BLOCKS_PER_YIELD === BLOCKS_PER_YIELD - 1) {
+      await yieldToBrowser();
+    }
+  }
+
+  if (blocks.length === 0) {
+    return REFERENCE_LOUDNESS_LUFS;
+  }
+
+  const ungated = blockLoudness(blocks.reduce((total, value) => total + value, 0) / blocks.length);
+  const gated = blocks.filter((value) => blockLoudness(value) > ungated - RELATIVE_GATE_LU);
+  return blockLoudness(gated.reduce((total, value) => total + value, 0) / gated.length);
+}
+
+function samplePeak(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const samples = buffer.getChannelData(channel);
+    for (let index = 0; index < samples.length; index += 1) {
+      const value = Math.abs(samples[index]);
+      if (value > peak) {
+        peak = value;
+      }
+    }
+  }
+  return peak;
+}
+
+// returns null for files too large to analyse from an excerpt
+export async function estimateLoudness(file: File, extension: AudioExtension): Promise<LoudnessEstimate | null> {
+  if (file.size > MAX_ANALYSED_BYTES && UNSLICEABLE_EXTENSIONS.has(extension)) {
+    return null;
+  }
+
+  const decoder = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await decoder.decodeAudioData(await file.slice(0, MAX_ANALYSED_BYTES).arrayBuffer());
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    channels.push(await kWeighted(buffer.getChannelData(channel), buffer.sampleRate));
+  }
+  const loudness = await integratedLoudness(channels, buffer.sampleRate);
+
+  return {
+    size: file.size,
+    lastModified: file.lastModified,
+    gainDb: REFERENCE_LOUDNESS_LUFS - loudness,
+    peak: samplePeak(buffer),
+  };
+}
+
+export function loudnessEstimateInfo(estimate: LoudnessEstimate): ReplayGainInfo {
+  return { trackGainDb: estimate.gainDb, trackPeak: estimate.peak };
+}
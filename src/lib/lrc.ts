@@ -1,11 +1,50 @@
+export interface LyricWord {
+  timeMs: number;
+  text: string;
+}
+
 export interface LyricLine {
   timeMs: number;
   text: string;
+  words?: LyricWord[];
+  translations?: string[];
 }
 
-const TIMESTAMP_REGEX = /\[(\d{1,2}):(\d{2})(?:\.(\d{1,3}))?\]/g;
+export interface LrcTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  author?: string;
+  lyricist?: string;
+  creator?: string;
+  editor?: string;
+  version?: string;
+  lengthMs?: number;
+}
+
+export interface LrcDocument {
+  tags: LrcTags;
+  offsetMs: number;
+  lines: LyricLine[];
+}
 
-function parseTimestampMs(match: RegExpExecArray): number {
+const TIMESTAMP_REGEX = /\[(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\]/g;
+const WORD_TIMESTAMP_REGEX = /<(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?>/g;
+const ID_TAG_REGEX = /^\s*\[([a-zA-Z#]+):([^\]]*)\]\s*$/;
+const LENGTH_REGEX = /^\s*(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\s*$/;
+
+const TAG_KEYS: Record<string, keyof Omit<LrcTags, "lengthMs">> = {
+  ti: "title",
+  ar: "artist",
+  al: "album",
+  au: "author",
+  lr: "lyricist",
+  by: "creator",
+  re: "editor",
+  ve: "version",
+};
+
+function parseTimestampMs(match: ArrayLike<string | undefined>): number {
   const minutes = Number(match[1]);
   const seconds = Number(match[2]);
   const fraction = match[3] ?? "0";
@@ -13,8 +52,66 @@ function parseTimestampMs(match: RegExpExecArray): number {
   return minutes * 60000 + seconds * 1000 + millis;
 }
 
-export function parseLrc(text: string): LyricLine[] {
+function applyOffset(timeMs: number, offsetMs: number): number {
+  return Math.max(0, timeMs - offsetMs);
+}
+
+function parseWords(text: string, lineTimeMs: number): { text: string; words?: LyricWord[] } {
+  WORD_TIMESTAMP_REGEX.lastIndex = 0;
+  if (!WORD_TIMESTAMP_REGEX.test(text)) {
+    return { text: text.trim() };
+  }
+
+  const words: LyricWord[] = [];
+  WORD_TIMESTAMP_REGEX.lastIndex = 0;
+  let cursor = 0;
+  let wordTimeMs = lineTimeMs;
+  let match = WORD_TIMESTAMP_REGEX.exec(text);
+  while (match) {
+    const segment = text.slice(cursor, match.index);
+    if (segment.trim()) {
+      words.push({ timeMs: wordTimeMs, text: segment });
+    }
+    wordTimeMs = parseTimestampMs(match);
+    cursor = match.index + match[0].length;
+    match = WORD_TIMESTAMP_REGEX.exec(text);
+  }
+
+  const tail = text.slice(cursor);
+  if (tail.trim()) {
+    words.push({ timeMs: wordTimeMs, text: tail });
+  }
+
+  if (words.length > 0) {
+    words[0] = { ...words[0], text: words[0].text.trimStart() };
+    const lastIndex = words.length - 1;
+    words[lastIndex] = { ...words[lastIndex], text: words[lastIndex].text.trimEnd() };
+  }
+
+  return {
+    text: words.map((word) => word.text).join("").trim(),
+    words: words.length > 0 ? words : undefined,
+  };
+}
+
+// lines sharing a timestamp are a translation of the first one, in file order
+export function groupTranslations(lines: LyricLine[]): LyricLine[] {
+  const grouped: LyricLine[] = [];
+  for (const line of lines) {
+    const previous = grouped[grouped.length - 1];
+    if (previous && previous.timeMs === line.timeMs) {
+      grouped[grouped.length - 1] = { ...previous, translations: [...(previous.translations ?? []), line.text] };
+    } else {
+      grouped.push(line);
+    }
+  }
+  return grouped;
+}
+
+export function parseLrcDocument(text: string): LrcDocument {
   const lines = text.split(/\r?\n/);
+  const tags: LrcTags = {};
+  let offsetMs = 0;
   const parsed: LyricLine[] = [];
 
   for (const line of lines) {
@@ -27,16 +124,51 @@ export function parseLrc(text: string): LyricLine[] {
     }
 
     if (timestamps.length === 0) {
+      const tagMatch = ID_TAG_REGEX.exec(line);
+      if (!tagMatch) {
+        continue;
+      }
+
+      const key = tagMatch[1].toLowerCase();
+      const value = tagMatch[2].trim();
+      if (key === "offset") {
+        const parsedOffset = Number(value);
+        if (Number.isFinite(parsedOffset)) {
+          offsetMs = Math.round(parsedOffset);
+        }
+      } else if (key === "length") {
+        const lengthMatch = LENGTH_REGEX.exec(value);
+        if (lengthMatch) {
+          tags.lengthMs = parseTimestampMs(lengthMatch);
+        }
+      } else if (TAG_KEYS[key] && value) {
+        tags[TAG_KEYS[key]] = value;
+      }
       continue;
     }
 
-    const lyricText = line.replace(TIMESTAMP_REGEX, "").trim();
+    const rawText = line.replace(TIMESTAMP_REGEX, "");
     for (const timeMs of timestamps) {
-      parsed.push({ timeMs, text: lyricText || "..." });
+      const { text: lyricText, words } = parseWords(rawText, timeMs);
+      parsed.push({ timeMs, text: lyricText || "...", words });
     }
   }
 
-  return parsed.sort((a, b) => a.timeMs - b.timeMs);
+  const shifted = parsed.map((line) => ({
+    ...line,
+    timeMs: applyOffset(line.timeMs, offsetMs),
+    words: line.words?.map((word) => ({ ...word, timeMs: applyOffset(word.timeMs, offsetMs) })),
+  }));
+
+  return {
+    tags,
+    offsetMs,
+    lines: groupTranslations(shifted.sort((a, b) => a.timeMs - b.timeMs)),
+  };
+}
+
+export function parseLrc(text: string): LyricLine[] {
+  return parseLrcDocument(text).lines;
 }
 
 export function activeLyricIndex(lines: LyricLine[], currentMs: number): number {
@@ -58,3 +190,54 @@ export function activeLyricIndex(lines: LyricLine[], currentMs: number): number
   }
   return answer;
 }
+
+export function activeLyricWordIndex(line: LyricLine | undefined, currentMs: number): number {
+  if (!line?.words) {
+    return -1;
+  }
+  return activeLyricIndex(line.words, currentMs);
+}
+
+function formatTimestamp(timeMs: number): string {
+  const clamped = Math.max(0, Math.round(timeMs / 10) * 10);
+  const minutes = Math.floor(clamped / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const hundredths = Math.floor((clamped % 1000) / 10);
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.${String(hundredths).padStart(2, "0")}`;
+}
+
+export function shiftLrcTimestamps(text: string, deltaMs: number): string {
+  const shift = (...match: string[]) => formatTimestamp(parseTimestampMs(match) + deltaMs);
+  return text
+    .replace(TIMESTAMP_REGEX, (...match: string[]) => `[${shift(...match)}]`)
+    .replace(WORD_TIMESTAMP_REGEX, (...match: string[]) => `<${shift(...match)}>`);
+}
+
+export function setLrcOffsetTag(text: string, offsetMs: number): string {
+  const lines = text.split(/\r?\n/);
+  const newline = text.includes("\r\n") ? "\r\n" : "\n";
+  const withoutOffset = lines.filter((line) => ID_TAG_REGEX.exec(line)?.[1].toLowerCase() !== "offset");
+  if (offsetMs === 0) {
+    return withoutOffset.join(newline);
+  }
+
+  let insertAt = 0;
+  while (insertAt < withoutOffset.length && ID_TAG_REGEX.test(withoutOffset[insertAt])) {
+    insertAt += 1;
+  }
+
+  const tag = `[offset:${offsetMs > 0 ? "+" : ""}${Math.round(offsetMs)}]`;
+  return [...withoutOffset.slice(0, insertAt), tag, ...withoutOffset.slice(insertAt)].join(newline);
+}
+
+export function formatLrc(lines: LyricLine[], tags: Pick<LrcTags, "title" | "artist" | "album"> = {}): string {
+  const header = [
+    tags.title ? `[ti:${tags.title}]` : null,
+    tags.artist ? `[ar:${tags.artist}]` : null,
+    tags.album ? `[al:${tags.album}]` : null,
+  ].filter((line): line is string => line !== null);
+  const body = lines.flatMap((line) =>
+    [line.text, ...(line.translations ?? [])].map((text) => `[${formatTimestamp(line.timeMs)}]${text}`)
+  );
+  return `${[...header, ...body].join("\n")}\n`;
+}
@@ -1,12 +1,33 @@
-import { parseBlob } from "music-metadata-browser";
+import { IAudioMetadata, parseBlob } from "music-metadata-browser";
+import { audioMimeTypeForName } from "./fs";
+import { LyricLine, parseLrc } from "./lrc";
+import { hasReplayGain, parseTagNumber, parseR128GainDb, ReplayGainInfo } from "./replaygain";
+import { readSyltLyrics } from "./sylt";
 
 export interface TrackMetadata {
   title: string;
   artist: string;
   album: string;
   artworkUrl?: string;
+  embeddedLyrics?: LyricLine[];
+  replayGain?: ReplayGainInfo;
 }
 
+// artist and album stay unset for untagged files, so the tag views group them as unknown instead of by folder
+export interface TrackTags {
+  title: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  genre?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  codec?: string;
+  replayGain?: ReplayGainInfo;
+}
+
+const LYRIC_TAG_IDS = new Set(["USLT", "LYRICS", "UNSYNCEDLYRICS", "SYNCEDLYRICS", "©LYR"]);
+
 function fileNameWithoutExtension(name: string): string {
   const lastDot = name.lastIndexOf(".");
   return lastDot > 0 ? name.slice(0, lastDot) : name;
@@ -42,6 +63,89 @@ function fallbackFromPath(path?: string): Pick<TrackMetadata, "artist" | "album"
   return { artist: "Unknown artist", album: "Unknown album" };
 }
 
+function blobWithMimeType(file: File): Blob {
+  if (file.type) {
+    return file;
+  }
+  const mimeType = audioMimeTypeForName(file.name);
+  return mimeType ? new Blob([file], { type: mimeType }) : file;
+}
+
+function lyricTagText(value: unknown): string | null {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value && typeof value === "object" && typeof (value as { text?: unknown }).text === "string") {
+    return (value as { text: string }).text;
+  }
+  return null;
+}
+
+function readReplayGain(
+  common: IAudioMetadata["common"],
+  native: Record<string, Array<{ id: string; value: unknown }>>
+): ReplayGainInfo | undefined {
+  const info: ReplayGainInfo = {
+    trackGainDb: common.replaygain_track_gain?.dB,
+    trackPeak: common.replaygain_track_peak?.ratio,
+    albumGainDb: common.replaygain_album_gain?.dB,
+    albumPeak: common.replaygain_album_peak?.ratio,
+  };
+
+  for (const tag of Object.values(native).flat()) {
+    const id = tag.id.toUpperCase();
+    if (id === "R128_TRACK_GAIN" && info.trackGainDb === undefined) {
+      info.trackGainDb = parseR128GainDb(tag.value);
+    } else if (id === "R128_ALBUM_GAIN" && info.albumGainDb === undefined) {
+      info.albumGainDb = parseR128GainDb(tag.value);
+    } else if (id.endsWith("REPLAYGAIN_TRACK_GAIN") && info.trackGainDb === undefined) {
+      info.trackGainDb = parseTagNumber(lyricTagText(tag.value) ?? tag.value);
+    } else if (id.endsWith("REPLAYGAIN_ALBUM_GAIN") && info.albumGainDb === undefined) {
+      info.albumGainDb = parseTagNumber(lyricTagText(tag.value) ?? tag.value);
+    } else if (id.endsWith("REPLAYGAIN_TRACK_PEAK") && info.trackPeak === undefined) {
+      info.trackPeak = parseTagNumber(lyricTagText(tag.value) ?? tag.value);
+    } else if (id.endsWith("REPLAYGAIN_ALBUM_PEAK") && info.albumPeak === undefined) {
+      info.albumPeak = parseTagNumber(lyricTagText(tag.value) ?? tag.value);
+    }
+  }
+
+  return hasReplayGain(info) ? info : undefined;
+}
+
+async function readEmbeddedLyrics(
+  file: File,
+  native: Record<string, Array<{ id: string; value: unknown }>>
+): Promise<LyricLine[] | undefined> {
+  const tags = Object.values(native).flat();
+
+  if (tags.some((tag) => tag.id === "SYLT")) {
+    try {
+      const synced = await readSyltLyrics(file);
+      if (synced.length > 0) {
+        return synced;
+      }
+    } catch {
+      // fall through to text lyric tags
+    }
+  }
+
+  for (const tag of tags) {
+    if (!LYRIC_TAG_IDS.has(tag.id.toUpperCase())) {
+      continue;
+    }
+    const text = lyricTagText(tag.value);
+    if (!text) {
+      continue;
+    }
+    const lines = parseLrc(text);
+    if (lines.length > 0) {
+      return lines;
+    }
+  }
+
+  return undefined;
+}
+
 export async function parseTrackMetadata(file: File, path?: string): Promise<TrackMetadata> {
   const pathFallback = fallbackFromPath(path);
   const fallback = {
@@ -51,7 +155,7 @@ export async function parseTrackMetadata(file: File, path?: string): Promise<Tra
   };
 
   try {
-    const metadata = await parseBlob(file);
+    const metadata = await parseBlob(blobWithMimeType(file));
     const common = metadata.common;
 
     let artworkUrl: string | undefined;
@@ -61,11 +165,39 @@ export async function parseTrackMetadata(file: File, path?: string): Promise<Tra
       artworkUrl = URL.createObjectURL(blob);
     }
 
+    const embeddedLyrics = await readEmbeddedLyrics(file, metadata.native);
+    const replayGain = readReplayGain(common, metadata.native);
+
     return {
       title: common.title || fallback.title,
       artist: common.artist || common.artists?.[0] || fallback.artist,
       album: common.album || fallback.album,
       artworkUrl,
+      embeddedLyrics,
+      replayGain,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+export async function parseTrackTags(file: File): Promise<TrackTags> {
+  const fallback: TrackTags = { title: titleFromFileName(file.name) };
+
+  try {
+    const metadata = await parseBlob(blobWithMimeType(file), { skipCovers: true });
+    const common = metadata.common;
+
+    return {
+      title: common.title || fallback.title,
+      artist: common.artist || common.artists?.[0] || undefined,
+      album: common.album || undefined,
+      albumArtist: common.albumartist || undefined,
+      genre: common.genre?.[0] || undefined,
+      trackNumber: common.track.no ?? undefined,
+      discNumber: common.disk.no ?? undefined,
+      codec: metadata.format.codec || undefined,
+      replayGain: readReplayGain(common, metadata.native),
     };
   } catch {
     return fallback;
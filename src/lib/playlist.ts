@@ -0,0 +1,160 @@
+import { PlaylistFile, TrackNode } from "./fs";
+import { readFileSource } from "./source";
+
+export interface ResolvedPlaylist {
+  id: string;
+  name: string;
+  path: string;
+  trackIds: string[];
+  unresolved: string[];
+}
+
+function normalizeSegments(segments: string[]): string[] | null {
+  const normalized: string[] = [];
+  for (const segment of segments) {
+    if (!segment || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      if (normalized.length === 0) {
+        return null;
+      }
+      normalized.pop();
+      continue;
+    }
+    normalized.push(segment);
+  }
+  return normalized;
+}
+
+function entryToPath(entry: string): string {
+  let path = entry.trim();
+  if (/^file:\/\//i.test(path)) {
+    path = path.replace(/^file:\/\/(localhost)?/i, "");
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // keep the raw path when it is not valid URI encoding
+    }
+  }
+  return path.replace(/\\/g, "/");
+}
+
+function isAbsolutePath(path: string): boolean {
+  return path.startsWith("/") || /^[a-zA-Z]:\//.test(path);
+}
+
+export function parseM3u(text: string): string[] {
+  return text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+export interface PlaylistLookup {
+  byPath: Map<string, string>;
+  // null marks a suffix shared by several tracks, which cannot be resolved safely
+  bySuffix: Map<string, string | null>;
+}
+
+// suffixes keep at least the parent folder, so a bare file name never matches a track elsewhere in the library
+const MIN_SUFFIX_SEGMENTS = 2;
+
+export function buildPlaylistLookup(tracks: TrackNode[]): PlaylistLookup {
+  const byPath = new Map<string, string>();
+  const bySuffix = new Map<string, string | null>();
+  for (const track of tracks) {
+    byPath.set(track.path.toLowerCase(), track.id);
+    const segments = track.path.toLowerCase().split("/");
+    for (let start = 0; start <= segments.length - MIN_SUFFIX_SEGMENTS; start += 1) {
+      const suffix = segments.slice(start).join("/");
+      bySuffix.set(suffix, bySuffix.has(suffix) ? null : track.id);
+    }
+  }
+  return { byPath, bySuffix };
+}
+
+export function resolvePlaylistEntries(
+  entries: string[],
+  playlistDirectoryPath: string,
+  { byPath, bySuffix }: PlaylistLookup
+): { trackIds: string[]; unresolved: string[] } {
+  const trackIds: string[] = [];
+  const unresolved: string[] = [];
+
+  for (const entry of entries) {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(entry) && !/^file:\/\//i.test(entry)) {
+      unresolved.push(entry);
+      continue;
+    }
+
+    const path = entryToPath(entry);
+    let trackId: string | undefined;
+
+    if (!isAbsolutePath(path)) {
+      const segments = normalizeSegments([...playlistDirectoryPath.split("/"), ...path.split("/")]);
+      if (segments) {
+        trackId = byPath.get(segments.join("/").toLowerCase());
+      }
+    }
+
+    if (!trackId) {
+      const segments = path
+        .replace(/^[a-zA-Z]:/, "")
+        .split("/")
+        .filter((segment) => segment && segment !== "." && segment !== "..");
+      // the longest suffix that exists decides; an ambiguous one leaves the entry unresolved
+      for (let start = 0; start <= segments.length - MIN_SUFFIX_SEGMENTS; start += 1) {
+        const match = bySuffix.get(segments.slice(start).join("/").toLowerCase());
+        if (match !== undefined) {
+          trackId = match ?? undefined;
+          break;
+        }
+      }
+    }
+
+    if (trackId) {
+      trackIds.push(trackId);
+    } else {
+      unresolved.push(entry);
+    }
+  }
+
+  return { trackIds, unresolved };
+}
+
+export async function readPlaylists(files: PlaylistFile[], tracks: TrackNode[]): Promise<ResolvedPlaylist[]> {
+  const playlists: ResolvedPlaylist[] = [];
+  const lookup = buildPlaylistLookup(tracks);
+  for (const file of files) {
+    try {
+      const text = await (await readFileSource(file.source)).text();
+      const resolved = resolvePlaylistEntries(parseM3u(text), file.directoryPath, lookup);
+      playlists.push({ id: file.id, name: file.name, path: file.path, ...resolved });
+    } catch {
+      playlists.push({ id: file.id, name: file.name, path: file.path, trackIds: [], unresolved: [] });
+    }
+  }
+  return playlists;
+}
+
+function relativePath(fromDirectory: string, toPath: string): string {
+  const fromParts = fromDirectory.split("/").filter(Boolean);
+  const toParts = toPath.split("/").filter(Boolean);
+  let shared = 0;
+  while (shared < fromParts.length && shared < toParts.length - 1 && fromParts[shared] === toParts[shared]) {
+    shared += 1;
+  }
+  return [...fromParts.slice(shared).map(() => ".."), ...toParts.slice(shared)].join("/");
+}
+
+export function buildM3u8(tracks: TrackNode[], playlistDirectoryPath: string, titles?: Map<string, string>): string {
+  const lines = ["#EXTM3U"];
+  for (const track of tracks) {
+    const title = titles?.get(track.id);
+    lines.push(`#EXTINF:-1,${title ?? track.name}`);
+    lines.push(relativePath(playlistDirectoryPath, track.path));
+  }
+  return `${lines.join("\n")}\n`;
+}
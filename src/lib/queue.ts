@@ -0,0 +1,84 @@
+export interface QueueEntry {
+  key: string;
+  trackId: string;
+}
+
+export interface PlayQueue {
+  entries: QueueEntry[];
+  position: number;
+}
+
+export const EMPTY_QUEUE: PlayQueue = { entries: [], position: -1 };
+
+let entryCounter = 0;
+
+function createEntries(trackIds: string[]): QueueEntry[] {
+  return trackIds.map((trackId) => {
+    entryCounter += 1;
+    return { key: `${Date.now().toString(36)}-${entryCounter}`, trackId };
+  });
+}
+
+export function replaceQueue(trackIds: string[]): PlayQueue {
+  return { entries: createEntries(trackIds), position: trackIds.length > 0 ? 0 : -1 };
+}
+
+export function enqueue(queue: PlayQueue, trackIds: string[]): PlayQueue {
+  return { ...queue, entries: [...queue.entries, ...createEntries(trackIds)] };
+}
+
+export function enqueueNext(queue: PlayQueue, trackIds: string[]): PlayQueue {
+  const insertAt = queue.position + 1;
+  return {
+    ...queue,
+    entries: [...queue.entries.slice(0, insertAt), ...createEntries(trackIds), ...queue.entries.slice(insertAt)],
+  };
+}
+
+export function moveQueueEntry(queue: PlayQueue, fromIndex: number, toIndex: number): PlayQueue {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= queue.entries.length) {
+    return queue;
+  }
+
+  const currentKey = queue.entries[queue.position]?.key;
+  const entries = [...queue.entries];
+  const [moved] = entries.splice(fromIndex, 1);
+  entries.splice(Math.max(0, Math.min(entries.length, toIndex)), 0, moved);
+
+  const position = currentKey ? entries.findIndex((entry) => entry.key === currentKey) : queue.position;
+  return { entries, position };
+}
+
+export function removeQueueEntry(queue: PlayQueue, index: number): PlayQueue {
+  if (index < 0 || index >= queue.entries.length) {
+    return queue;
+  }
+
+  const entries = queue.entries.filter((_, entryIndex) => entryIndex !== index);
+  const position = index <= queue.position ? queue.position - 1 : queue.position;
+  return { entries, position: entries.length === 0 ? -1 : position };
+}
+
+export function jumpToQueueEntry(queue: PlayQueue, index: number): PlayQueue {
+  if (index < 0 || index >= queue.entries.length) {
+    return queue;
+  }
+  return { ...queue, position: index };
+}
+
+export function stepQueue(
+  queue: PlayQueue,
+  direction: 1 | -1,
+  isPlayable: (trackId: string) => boolean
+): PlayQueue | null {
+  for (let index = queue.position + direction; index >= 0 && index < queue.entries.length; index += direction) {
+    if (isPlayable(queue.entries[index].trackId)) {
+      return { ...queue, position: index };
+    }
+  }
+  return null;
+}
+
+export function currentQueueEntry(queue: PlayQueue): QueueEntry | undefined {
+  return queue.entries[queue.position];
+}
@@ -0,0 +1,64 @@
+export type ReplayGainMode = "off" | "track" | "album";
+
+export interface ReplayGainInfo {
+  trackGainDb?: number;
+  trackPeak?: number;
+  albumGainDb?: number;
+  albumPeak?: number;
+}
+
+export interface ReplayGainSettings {
+  mode: ReplayGainMode;
+  preampDb: number;
+  preventClipping: boolean;
+  estimateMissing: boolean;
+}
+
+export const DEFAULT_REPLAY_GAIN_SETTINGS: ReplayGainSettings = {
+  mode: "off",
+  preampDb: 0,
+  preventClipping: true,
+  estimateMissing: false,
+};
+
+export const MIN_PREAMP_DB = -12;
+export const MAX_PREAMP_DB = 12;
+
+// R128 gains are relative to -23 LUFS, ReplayGain 2.0 to -18 LUFS
+const R128_TO_REPLAY_GAIN_DB = 5;
+
+export function parseTagNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const parsed = Number.parseFloat(value.replace(/\s*dB\s*$/i, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function parseR128GainDb(value: unknown): number | undefined {
+  const raw = typeof value === "number" ? value : typeof value === "string" ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(raw) ? raw / 256 + R128_TO_REPLAY_GAIN_DB : undefined;
+}
+
+export function hasReplayGain(info: ReplayGainInfo | undefined): info is ReplayGainInfo {
+  return info?.trackGainDb !== undefined || info?.albumGainDb !== undefined;
+}
+
+export function replayGainMultiplier(info: ReplayGainInfo | undefined, settings: ReplayGainSettings): number {
+  if (settings.mode === "off" || !hasReplayGain(info)) {
+    return 1;
+  }
+
+  const useAlbum = settings.mode === "album" && info.albumGainDb !== undefined;
+  const gainDb = (useAlbum ? info.albumGainDb : info.trackGainDb) ?? info.albumGainDb ?? 0;
+  const peak = useAlbum ? info.albumPeak ?? info.trackPeak : info.trackPeak ?? info.albumPeak;
+
+  const multiplier = 10 ** ((gainDb + settings.preampDb) / 20);
+  if (settings.preventClipping && peak && peak > 0) {
+    return Math.min(multiplier, 1 / peak);
+  }
+  return multiplier;
+}
@@ -0,0 +1,314 @@
+import { LyricLine, activeLyricIndex, activeLyricWordIndex } from "./lrc";
+import { CharacterWidthModel, MIN_SCROLL_PORTION, ScrollMode, glyphClass } from "./bluetooth";
+
+export const MIN_LYRIC_LINE_MS = 300;
+export const LAST_LYRIC_LINE_MS = 4000;
+
+export interface LyricWindow {
+  previous: string;
+  current: string;
+  next: string;
+  translation: string;
+  lineIndex: number;
+  windowIndex: number;
+}
+
+export interface LineWindows {
+  original: string[];
+  translation: string[];
+}
+
+export interface ScrollTiming {
+  scrollDwellStart: number;
+  scrollDwellEnd: number;
+  playbackRate: number;
+}
+
+interface TextSegment {
+  segment: string;
+  index: number;
+  isWordLike?: boolean;
+}
+
+const maybeIntl = Intl as unknown as {
+  Segmenter?: new (locale?: string | string[], options?: { granularity: string }) => {
+    segment(input: string): Iterable<TextSegment>;
+  };
+};
+
+// segmenters are costly to construct and the measurers run for every candidate window
+const graphemeSegmenter = maybeIntl.Segmenter ? new maybeIntl.Segmenter(undefined, { granularity: "grapheme" }) : null;
+const wordSegmenter = maybeIntl.Segmenter ? new maybeIntl.Segmenter(undefined, { granularity: "word" }) : null;
+
+const WHITESPACE = /^\s+$/;
+// scripts written without spaces, where every character can start a window when Intl.Segmenter is missing
+const UNSPACED_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+const FALLBACK_WORDS = /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[\p{L}\p{M}\p{N}'’]+|[^\s\p{L}\p{M}\p{N}]+/gu;
+
+export function splitGraphemes(text: string): string[] {
+  if (graphemeSegmenter) {
+    return Array.from(graphemeSegmenter.segment(text), (part) => part.segment);
+  }
+  return Array.from(text);
+}
+
+// measures text as the fraction of a calibrated head unit's display it fills
+export function createWidthModelMeasurer(model: CharacterWidthModel) {
+  const graphemeWidths = new Map<string, number>();
+  const graphemeWidth = (grapheme: string) => {
+    let width = graphemeWidths.get(grapheme);
+    if (width === undefined) {
+      width = 1 / model[glyphClass(grapheme)];
+      graphemeWidths.set(grapheme, width);
+    }
+    return width;
+  };
+  return (text: string) => {
+    const width = splitGraphemes(text).reduce((sum, grapheme) => sum + graphemeWidth(grapheme), 0);
+    return Math.round(width * 1e6) / 1e6;
+  };
+}
+
+export function clipToWidth(text: string, maxWidth: number, measureWidth: (text: string) => number): string {
+  if (measureWidth(text) <= maxWidth) {
+    return text;
+  }
+  let clipped = "";
+  for (const grapheme of splitGraphemes(text)) {
+    if (measureWidth(clipped + grapheme) > maxWidth) {
+      break;
+    }
+    clipped += grapheme;
+  }
+  return clipped;
+}
+
+function segmentWords(text: string): TextSegment[] {
+  if (wordSegmenter) {
+    return Array.from(wordSegmenter.segment(text));
+  }
+  return Array.from(text.matchAll(FALLBACK_WORDS), (match) => ({
+    segment: match[0],
+    index: match.index ?? 0,
+    isWordLike: /[\p{L}\p{N}]/u.test(match[0]),
+  }));
+}
+
+function graphemeOffsets(text: string, from: number, to: number): number[] {
+  const offsets: number[] = [];
+  let offset = from;
+  for (const grapheme of splitGraphemes(text.slice(from, to))) {
+    if (!WHITESPACE.test(grapheme)) {
+      offsets.push(offset);
+    }
+    offset += grapheme.length;
+  }
+  return offsets;
+}
+
+// offsets where a window may begin: the start of each word, plus every grapheme of a word too wide to show whole
+function windowStartOffsets(text: string, maxWidthPx: number, measureWidth: (text: string) => number): number[] {
+  const segments = segmentWords(text);
+  const wordStarts: number[] = [];
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1];
+    if (WHITESPACE.test(segment.segment)) {
+      return;
+    }
+    const afterSpace = !previous || WHITESPACE.test(previous.segment);
+    const unspaced = Boolean(segment.isWordLike && previous?.isWordLike) || UNSPACED_CHARACTER.test(segment.segment);
+    if (afterSpace || unspaced) {
+      wordStarts.push(segment.index);
+    }
+  });
+
+  const starts: number[] = [];
+  wordStarts.forEach((start, index) => {
+    const end = wordStarts[index + 1] ?? text.length;
+    if (measureWidth(text.slice(start, end).trim()) <= maxWidthPx) {
+      starts.push(start);
+    } else {
+      starts.push(...graphemeOffsets(text, start, end));
+    }
+  });
+  return starts;
+}
+
+function fittingEnd(
+  text: string,
+  start: number,
+  breaks: number[],
+  maxWidthPx: number,
+  measureWidth: (text: string) => number
+): number {
+  let end = -1;
+  for (const candidate of breaks) {
+    if (candidate <= start) {
+      continue;
+    }
+    if (end >= 0 && measureWidth(text.slice(start, candidate).trim()) > maxWidthPx) {
+      break;
+    }
+    end = candidate;
+  }
+  return end < 0 ? text.length : end;
+}
+
+function buildWordWindows(
+  text: string,
+  maxWidthPx: number,
+  measureWidth: (text: string) => number,
+  paged: boolean
+): string[] {
+  const starts = windowStartOffsets(text, maxWidthPx, measureWidth);
+  const breaks = [...starts, text.length];
+  const windows: string[] = [];
+
+  let startIndex = 0;
+  while (startIndex < starts.length) {
+    const start = starts[startIndex];
+    const end = fittingEnd(text, start, breaks, maxWidthPx, measureWidth);
+    const window = text.slice(start, end).trim();
+    if (windows[windows.length - 1] !== window) {
+      windows.push(window);
+    }
+    if (end >= text.length) {
+      break;
+    }
+    startIndex = paged ? starts.indexOf(end) : startIndex + 1;
+  }
+
+  return windows.length > 0 ? windows : [text.trim()];
+}
+
+export function buildFittingWindows(
+  text: string,
+  maxWidthPx: number,
+  measureWidth: (text: string) => number,
+  mode: ScrollMode = "grapheme"
+): string[] {
+  if (!text.trim()) {
+    return [""];
+  }
+
+  if (measureWidth(text.trimStart()) <= maxWidthPx) {
+    return [text.trimStart()];
+  }
+
+  if (mode !== "grapheme") {
+    return buildWordWindows(text, maxWidthPx, measureWidth, mode === "page");
+  }
+
+  const graphemes = splitGraphemes(text);
+  const windows: string[] = [];
+
+  for (let start = 0; start < graphemes.length; start += 1) {
+    let candidate = "";
+    let reachedLineEnd = false;
+    for (let end = start; end < graphemes.length; end += 1) {
+      const nextCandidate = candidate + graphemes[end];
+      if (measureWidth(nextCandidate.trimStart()) <= maxWidthPx) {
+        candidate = nextCandidate;
+        reachedLineEnd = end === graphemes.length - 1;
+        continue;
+      }
+      break;
+    }
+
+    if (!candidate) {
+      candidate = graphemes[start];
+    }
+
+    const normalized = candidate.trimStart();
+    const finalWindow = normalized || candidate;
+    if (windows[windows.length - 1] !== finalWindow) {
+      windows.push(finalWindow);
+    }
+
+    if (reachedLineEnd) {
+      break;
+    }
+  }
+
+  return windows.length > 0 ? windows : [text];
+}
+
+export function translationText(line: LyricLine): string {
+  return line.translations?.join(" / ") ?? "";
+}
+
+export function buildLineWindows(
+  lyrics: LyricLine[],
+  maxWidthPx: number,
+  measureWidth: (text: string) => number,
+  mode: ScrollMode
+): LineWindows[] {
+  return lyrics.map((line) => ({
+    original: buildFittingWindows(line.text, maxWidthPx, measureWidth, mode),
+    translation: buildFittingWindows(translationText(line), maxWidthPx, measureWidth, mode),
+  }));
+}
+
+function windowAtProgress(windows: string[], progress: number): number {
+  return windows.length <= 1 ? 0 : Math.min(windows.length - 1, Math.floor(progress * (windows.length - 1)));
+}
+
+export function scrollPortion(timing: Pick<ScrollTiming, "scrollDwellStart" | "scrollDwellEnd">): number {
+  return Math.max(MIN_SCROLL_PORTION, 1 - timing.scrollDwellStart - timing.scrollDwellEnd);
+}
+
+export function lyricLineBounds(lyrics: LyricLine[], lineIndex: number, playbackRate: number) {
+  const startMs = lineIndex >= 0 ? lyrics[lineIndex].timeMs : 0;
+  const endMs =
+    lineIndex >= 0 && lineIndex < lyrics.length - 1
+      ? lyrics[lineIndex + 1].timeMs
+      : startMs + LAST_LYRIC_LINE_MS * playbackRate;
+  return { startMs, endMs };
+}
+
+export function lyricWindowAt(
+  lyrics: LyricLine[],
+  lineWindows: LineWindows[],
+  timeMs: number,
+  timing: ScrollTiming
+): LyricWindow {
+  const lineIndex = activeLyricIndex(lyrics, timeMs);
+  const activeWord = lineIndex >= 0 ? activeLyricWordIndex(lyrics[lineIndex], timeMs) : -1;
+
+  const previousWindows = lineIndex > 0 ? lineWindows[lineIndex - 1].original : [""];
+  const currentWindows = lineIndex >= 0 ? lineWindows[lineIndex].original : [""];
+  const nextWindows = lineIndex >= 0 && lineIndex < lyrics.length - 1 ? lineWindows[lineIndex + 1].original : [""];
+  const translationWindows = lineIndex >= 0 ? lineWindows[lineIndex].translation : [""];
+
+  const { startMs, endMs } = lyricLineBounds(lyrics, lineIndex, timing.playbackRate);
+  const lineDurationMs = Math.max(MIN_LYRIC_LINE_MS * timing.playbackRate, endMs - startMs);
+  const normalizedLineProgress = Math.min(1, Math.max(0, (timeMs - startMs) / lineDurationMs));
+  const scrollStart = timing.scrollDwellStart;
+  const scrollEnd = Math.min(1 - MIN_SCROLL_PORTION, timing.scrollDwellStart + scrollPortion(timing));
+
+  const currentWords = lineIndex >= 0 ? lyrics[lineIndex].words : undefined;
+
+  let progress = 0;
+  if (currentWords && currentWords.length > 1 && activeWord >= 0) {
+    const totalLength = currentWords.reduce((sum, word) => sum + word.text.length, 0);
+    const sungLength = currentWords.slice(0, activeWord + 1).reduce((sum, word) => sum + word.text.length, 0);
+    progress = totalLength > 0 ? sungLength / totalLength : 0;
+  } else if (normalizedLineProgress <= scrollStart) {
+    progress = 0;
+  } else if (normalizedLineProgress >= scrollEnd) {
+    progress = 1;
+  } else {
+    progress = (normalizedLineProgress - scrollStart) / (scrollEnd - scrollStart);
+  }
+
+  const windowIndex = windowAtProgress(currentWindows, progress);
+
+  return {
+    previous: previousWindows[previousWindows.length - 1] ?? "",
+    current: currentWindows[windowIndex] ?? "",
+    next: nextWindows[0] ?? "",
+    translation: translationWindows[windowAtProgress(translationWindows, progress)] ?? "",
+    lineIndex,
+    windowIndex,
+  };
+}
@@ -0,0 +1,90 @@
+import { TrackNode } from "./fs";
+import { TrackTags } from "./metadata";
+
+export interface SearchDocument {
+  trackId: string;
+  text: string;
+  lyrics: string;
+}
+
+export interface SearchResult {
+  trackId: string;
+  lyricSnippet?: string;
+}
+
+function normalizeForSearch(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+}
+
+export function buildSearchDocuments(
+  tracks: TrackNode[],
+  tags: Record<string, TrackTags>,
+  lyricsText: Record<string, string>
+): SearchDocument[] {
+  return tracks.map((track) => {
+    const trackTags = tags[track.id];
+    const fields = [track.path];
+    if (trackTags) {
+      fields.push(
+        trackTags.title,
+        trackTags.artist ?? "",
+        trackTags.album ?? "",
+        trackTags.albumArtist ?? "",
+        trackTags.genre ?? ""
+      );
+    }
+    return {
+      trackId: track.id,
+      text: normalizeForSearch(fields.join("\n")),
+      lyrics: normalizeForSearch(lyricsText[track.id] ?? ""),
+    };
+  });
+}
+
+function lyricSnippet(lyrics: string, normalizedLyrics: string, terms: string[]): string | undefined {
+  const lines = lyrics.split("\n");
+  const normalizedLines = normalizedLyrics.split("\n");
+  const lineIndex = normalizedLines.findIndex((line) => terms.some((term) => line.includes(term)));
+  return lineIndex >= 0 ? lines[lineIndex] : undefined;
+}
+
+export function searchLibrary(
+  documents: SearchDocument[],
+  lyricsText: Record<string, string>,
+  query: string,
+  limit: number
+): SearchResult[] {
+  const terms = normalizeForSearch(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const textMatches: SearchResult[] = [];
+  const lyricMatches: SearchResult[] = [];
+  for (const document of documents) {
+    if (textMatches.length >= limit) {
+      break;
+    }
+
+    if (terms.every((term) => document.text.includes(term))) {
+      textMatches.push({ trackId: document.trackId });
+      continue;
+    }
+
+    if (
+      lyricMatches.length < limit &&
+      document.lyrics &&
+      terms.every((term) => document.text.includes(term) || document.lyrics.includes(term))
+    ) {
+      lyricMatches.push({
+        trackId: document.trackId,
+        lyricSnippet: lyricSnippet(lyricsText[document.trackId] ?? "", document.lyrics, terms),
+      });
+    }
+  }
+
+  return [...textMatches, ...lyricMatches].slice(0, limit);
+}
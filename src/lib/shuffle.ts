@@ -0,0 +1,79 @@
+export type RepeatMode = "off" | "all" | "one";
+export type ShuffleScope = "off" | "library" | "folder" | "queue";
+
+export interface PlaybackModes {
+  repeat: RepeatMode;
+  shuffle: ShuffleScope;
+}
+
+export const DEFAULT_PLAYBACK_MODES: PlaybackModes = {
+  repeat: "all",
+  shuffle: "off",
+};
+
+export interface HistoryEntry {
+  trackId: string;
+  queuePosition: number;
+}
+
+export interface PlaybackHistory {
+  entries: HistoryEntry[];
+  cursor: number;
+}
+
+export interface ShuffleBag {
+  scopeKey: string;
+  remaining: string[];
+}
+
+export const EMPTY_HISTORY: PlaybackHistory = { entries: [], cursor: -1 };
+
+const MAX_HISTORY_LENGTH = 500;
+
+export function pushHistory(history: PlaybackHistory, entry: HistoryEntry): PlaybackHistory {
+  const current = history.entries[history.cursor];
+  if (current && current.trackId === entry.trackId && current.queuePosition === entry.queuePosition) {
+    return history;
+  }
+
+  const entries = [...history.entries.slice(0, history.cursor + 1), entry].slice(-MAX_HISTORY_LENGTH);
+  return { entries, cursor: entries.length - 1 };
+}
+
+export function stepHistory(history: PlaybackHistory, direction: 1 | -1): PlaybackHistory | null {
+  const cursor = history.cursor + direction;
+  if (cursor < 0 || cursor >= history.entries.length) {
+    return null;
+  }
+  return { ...history, cursor };
+}
+
+export function drawFromShuffleBag(
+  bag: ShuffleBag | null,
+  scopeKey: string,
+  pool: string[],
+  currentId: string | null,
+  refill: boolean
+): { id: string; bag: ShuffleBag } | null {
+  const poolSet = new Set(pool);
+  let remaining =
+    bag && bag.scopeKey === scopeKey ? bag.remaining.filter((id) => poolSet.has(id) && id !== currentId) : null;
+
+  if (remaining === null || (remaining.length === 0 && refill)) {
+    remaining = pool.filter((id) => id !== currentId);
+    if (remaining.length === 0 && refill && currentId && poolSet.has(currentId)) {
+      remaining = [currentId];
+    }
+  }
+
+  if (remaining.length === 0) {
+    return null;
+  }
+
+  const pick = Math.floor(Math.random() * remaining.length);
+  const id = remaining[pick];
+  return {
+    id,
+    bag: { scopeKey, remaining: remaining.filter((_, index) => index !== pick) },
+  };
+}
@@ -0,0 +1,179 @@
+import { BluetoothDisplaySettings, BluetoothMetadataPayload, buildMetadataPayload } from "./bluetooth";
+import { LyricLine } from "./lrc";
+import { TrackMetadata } from "./metadata";
+import { LineWindows, lyricLineBounds, lyricWindowAt } from "./scroll";
+
+export type SimulationIssue = "scrolls-too-fast" | "last-words-hidden";
+
+export interface SimulatedPublish {
+  timeMs: number;
+  payload: BluetoothMetadataPayload;
+  lineIndex: number;
+  windowIndex: number;
+}
+
+export interface SimulatedLineReport {
+  lineIndex: number;
+  text: string;
+  startMs: number;
+  endMs: number;
+  windowCount: number;
+  shownWindows: number;
+  shortestWindowMs: number;
+  issues: SimulationIssue[];
+}
+
+export interface TimelineSimulation {
+  durationMs: number;
+  publishes: SimulatedPublish[];
+  lines: SimulatedLineReport[];
+}
+
+export interface TimelineSimulationInput {
+  lyrics: LyricLine[];
+  lineWindows: LineWindows[];
+  metadata: Pick<TrackMetadata, "title" | "artist" | "album" | "artworkUrl">;
+  settings: BluetoothDisplaySettings;
+  durationMs: number;
+  // wall-clock interval of the live position timer
+  tickMs: number;
+  offsetMs: number;
+  playbackRate: number;
+}
+
+interface DesiredState {
+  payload: BluetoothMetadataPayload;
+  signature: string;
+  lineIndex: number;
+  windowIndex: number;
+}
+
+// replays the publish effect tick by tick; all times are track positions, the tick and throttle are scaled to match
+export function simulateBluetoothTimeline(input: TimelineSimulationInput): TimelineSimulation {
+  const { lyrics, lineWindows, metadata, settings, durationMs, offsetMs, playbackRate } = input;
+  const tickMs = Math.max(1, input.tickMs * playbackRate);
+  const throttleMs = settings.metadataRefreshIntervalMs * playbackRate;
+  const holdMs = settings.minSongMetadataSeconds * 1000 * playbackRate;
+  const timing = { ...settings, playbackRate };
+
+  const publishes: SimulatedPublish[] = [];
+  const shown = lyrics.map(() => new Map<number, number>());
+  const dwell = lyrics.map(() => new Map<number, number>());
+
+  let lastSentAt = Number.NEGATIVE_INFINITY;
+  let lastSignature: string | null = null;
+  let pending: DesiredState | null = null;
+  let flushAt: number | null = null;
+  let segment: { lineIndex: number; windowIndex: number; startMs: number } | null = null;
+
+  const closeShown = (timeMs: number) => {
+    const previous = publishes[publishes.length - 1];
+    if (previous && previous.lineIndex >= 0) {
+      const windows = shown[previous.lineIndex];
+      windows.set(previous.windowIndex, (windows.get(previous.windowIndex) ?? 0) + timeMs - previous.timeMs);
+    }
+  };
+
+  const publish = (state: DesiredState, timeMs: number) => {
+    closeShown(timeMs);
+    publishes.push({ timeMs, payload: state.payload, lineIndex: state.lineIndex, windowIndex: state.windowIndex });
+    lastSentAt = timeMs;
+    lastSignature = state.signature;
+  };
+
+  const closeSegment = (timeMs: number) => {
+    if (segment && segment.lineIndex >= 0) {
+      const windows = dwell[segment.lineIndex];
+      windows.set(segment.windowIndex, (windows.get(segment.windowIndex) ?? 0) + timeMs - segment.startMs);
+    }
+  };
+
+  for (let timeMs = 0; timeMs <= durationMs; timeMs += tickMs) {
+    if (flushAt !== null && pending && timeMs >= flushAt) {
+      publish(pending, flushAt);
+      pending = null;
+      flushAt = null;
+    }
+
+    const lyricTimeMs = timeMs - offsetMs;
+    const usesLyricsWindow = lyrics.length > 0 && lyricTimeMs >= lyrics[0].timeMs && timeMs >= holdMs;
+    const lyricWindow = usesLyricsWindow ? lyricWindowAt(lyrics, lineWindows, lyricTimeMs, timing) : null;
+    const payload = buildMetadataPayload(metadata, lyricWindow, settings.fieldMapping);
+    const desired: DesiredState = {
+      payload,
+      signature: JSON.stringify(payload),
+      lineIndex: lyricWindow ? lyricWindow.lineIndex : -1,
+      windowIndex: lyricWindow ? lyricWindow.windowIndex : -1,
+    };
+
+    if (!segment || segment.lineIndex !== desired.lineIndex || segment.windowIndex !== desired.windowIndex) {
+      closeSegment(timeMs);
+      segment = { lineIndex: desired.lineIndex, windowIndex: desired.windowIndex, startMs: timeMs };
+    }
+
+    if (desired.signature === lastSignature && pending === null) {
+      continue;
+    }
+    if (timeMs - lastSentAt >= throttleMs) {
+      pending = null;
+      flushAt = null;
+      publish(desired, timeMs);
+      continue;
+    }
+    pending = desired;
+    flushAt ??= lastSentAt + throttleMs;
+  }
+
+  if (pending && flushAt !== null && flushAt <= durationMs) {
+    publish(pending, flushAt);
+  }
+  closeSegment(durationMs);
+  closeShown(durationMs);
+
+  const lines = lyrics.map((line, lineIndex): SimulatedLineReport => {
+    const { startMs, endMs } = lyricLineBounds(lyrics, lineIndex, playbackRate);
+    const windowCount = lineWindows[lineIndex]?.original.length ?? 1;
+    const dwellTimes = Array.from(dwell[lineIndex].values());
+    const shortestWindowMs = dwellTimes.length > 0 ? Math.min(...dwellTimes) / playbackRate : 0;
+    const issues: SimulationIssue[] = [];
+    // lines that only played under the song metadata hold were never on screen, so there is nothing to judge
+    if (windowCount > 1 && dwellTimes.length > 0) {
+      const skipped = shown[lineIndex].size < dwell[lineIndex].size;
+      if (skipped || shortestWindowMs < settings.metadataRefreshIntervalMs) {
+        issues.push("scrolls-too-fast");
+      }
+      // a last window replaced as soon as the throttle allowed was never readable
+      if ((shown[lineIndex].get(windowCount - 1) ?? 0) < throttleMs) {
+        issues.push("last-words-hidden");
+      }
+    }
+    return {
+      lineIndex,
+      text: line.text,
+      startMs: startMs + offsetMs,
+      endMs: endMs + offsetMs,
+      windowCount,
+      shownWindows: shown[lineIndex].size,
+      shortestWindowMs,
+      issues,
+    };
+  });
+
+  return { durationMs, publishes, lines };
+}
+
+export function publishAt(simulation: TimelineSimulation, timeMs: number): SimulatedPublish | null {
+  let left = 0;
+  let right = simulation.publishes.length - 1;
+  let answer: SimulatedPublish | null = null;
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (simulation.publishes[mid].timeMs <= timeMs) {
+      answer = simulation.publishes[mid];
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+  return answer;
+}
@@ -0,0 +1,34 @@
+export type SleepTimerMode = "minutes" | "track-end" | "tracks";
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  endsAt: number | null;
+  tracksRemaining: number;
+}
+
+export function startSleepTimer(mode: SleepTimerMode, amount: number, now: number): SleepTimer {
+  const count = Math.max(1, Math.round(amount));
+  return {
+    mode,
+    endsAt: mode === "minutes" ? now + count * 60_000 : null,
+    tracksRemaining: mode === "tracks" ? count : 1,
+  };
+}
+
+export function isFinalSleepTrack(timer: SleepTimer): boolean {
+  return timer.mode !== "minutes" && timer.tracksRemaining <= 1;
+}
+
+export function sleepTimerAfterTrackEnded(timer: SleepTimer): SleepTimer | null {
+  if (timer.mode === "minutes") {
+    return timer;
+  }
+  return isFinalSleepTrack(timer) ? null : { ...timer, tracksRemaining: timer.tracksRemaining - 1 };
+}
+
+export function sleepRemainingMs(timer: SleepTimer, now: number, trackRemainingMs: number): number {
+  if (timer.endsAt !== null) {
+    return Math.max(0, timer.endsAt - now);
+  }
+  return isFinalSleepTrack(timer) ? Math.max(0, trackRemainingMs) : Number.POSITIVE_INFINITY;
+}
@@ -0,0 +1,143 @@
+// library files come from File System Access handles where the browser has them, and from File objects
+// picked with <input webkitdirectory> or dropped as folders where it does not
+export type FileSource = FileSystemFileHandle | File;
+
+export interface ImportedDirectory {
+  kind: "imported";
+  name: string;
+  directories: ImportedDirectory[];
+  files: File[];
+}
+
+export type DirectorySource = FileSystemDirectoryHandle | ImportedDirectory;
+
+export type SourceEntry =
+  | { kind: "directory"; name: string; source: DirectorySource }
+  | { kind: "file"; name: string; source: FileSource };
+
+const LOOSE_FILES_FOLDER = "Imported files";
+
+export function readFileSource(source: FileSource): Promise<File> {
+  return source instanceof File ? Promise.resolve(source) : source.getFile();
+}
+
+export function fileHandleOf(source: FileSource): FileSystemFileHandle | null {
+  return source instanceof File ? null : source;
+}
+
+export function isDirectoryHandle(source: DirectorySource): source is FileSystemDirectoryHandle {
+  return source.kind === "directory";
+}
+
+// an imported folder has no identity of its own, so the same folder picked twice is matched by its contents
+function sameImportedDirectory(left: ImportedDirectory, right: ImportedDirectory): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (
+    left.name !== right.name ||
+    left.files.length !== right.files.length ||
+    left.directories.length !== right.directories.length
+  ) {
+    return false;
+  }
+  const rightFiles = new Map(right.files.map((file) => [file.name, file]));
+  const rightDirectories = new Map(right.directories.map((directory) => [directory.name, directory]));
+  return (
+    left.files.every((file) => {
+      const other = rightFiles.get(file.name);
+      return other !== undefined && other.size === file.size && other.lastModified === file.lastModified;
+    }) &&
+    left.directories.every((directory) => {
+      const other = rightDirectories.get(directory.name);
+      return other !== undefined && sameImportedDirectory(directory, other);
+    })
+  );
+}
+
+export async function sameDirectorySource(left: DirectorySource, right: DirectorySource): Promise<boolean> {
+  if (isDirectoryHandle(left) && isDirectoryHandle(right)) {
+    return left.isSameEntry(right);
+  }
+  if (!isDirectoryHandle(left) && !isDirectoryHandle(right)) {
+    return sameImportedDirectory(left, right);
+  }
+  return false;
+}
+
+export async function listDirectory(source: DirectorySource): Promise<SourceEntry[]> {
+  if (!isDirectoryHandle(source)) {
+    return [
+      ...source.directories.map(
+        (directory): SourceEntry => ({ kind: "directory", name: directory.name, source: directory })
+      ),
+      ...source.files.map((file): SourceEntry => ({ kind: "file", name: file.name, source: file })),
+    ];
+  }
+
+  const entries: SourceEntry[] = [];
+  for await (const [name, entry] of source.entries()) {
+    entries.push(
+      entry.kind === "directory"
+        ? { kind: "directory", name, source: entry as FileSystemDirectoryHandle }
+        : { kind: "file", name, source: entry as FileSystemFileHandle }
+    );
+  }
+  return entries;
+}
+
+function createImportedDirectory(name: string): ImportedDirectory {
+  return { kind: "imported", name, directories: [], files: [] };
+}
+
+function childDirectory(parent: ImportedDirectory, name: string): ImportedDirectory {
+  let child = parent.directories.find((directory) => directory.name === name);
+  if (!child) {
+    child = createImportedDirectory(name);
+    parent.directories.push(child);
+  }
+  return child;
+}
+
+// webkitRelativePath starts with the picked folder's name; files without one were picked or dropped loose
+export function importFileList(files: File[]): ImportedDirectory[] {
+  const roots = new Map<string, ImportedDirectory>();
+  for (const file of files) {
+    const folders = (file.webkitRelativePath || file.name).split("/").slice(0, -1);
+    const rootName = folders.shift() ?? LOOSE_FILES_FOLDER;
+    let directory = roots.get(rootName);
+    if (!directory) {
+      directory = createImportedDirectory(rootName);
+      roots.set(rootName, directory);
+    }
+    for (const folder of folders) {
+      directory = childDirectory(directory, folder);
+    }
+    directory.files.push(file);
+  }
+  return Array.from(roots.values());
+}
+
+function readEntryBatch(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries hands back directory contents in batches and signals the end with an empty one
+export async function importDroppedDirectory(entry: FileSystemDirectoryEntry): Promise<ImportedDirectory> {
+  const directory = createImportedDirectory(entry.name);
+  const reader = entry.createReader();
+  for (let batch = await readEntryBatch(reader); batch.length > 0; batch = await readEntryBatch(reader)) {
+    for (const child of batch) {
+      if (child.isDirectory) {
+        directory.directories.push(await importDroppedDirectory(child as FileSystemDirectoryEntry));
+      } else if (child.isFile) {
+        directory.files.push(await readEntryFile(child as FileSystemFileEntry));
+      }
+    }
+  }
+  return directory;
+}
@@ -0,0 +1,176 @@
+import { LyricLine, LyricWord, groupTranslations } from "./lrc";
+
+const ID3_HEADER_SIZE = 10;
+const SYLT_TIMESTAMP_FORMAT_MS = 2;
+
+interface SyltEntry {
+  timeMs: number;
+  text: string;
+}
+
+function syncsafeInt(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+  );
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  for (let index = 0; index < bytes.length; index += 1) {
+    output.push(bytes[index]);
+    if (bytes[index] === 0xff && bytes[index + 1] === 0x00) {
+      index += 1;
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  if (encoding === 1 || encoding === 2) {
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+    }
+    return new TextDecoder(encoding === 2 ? "utf-16be" : "utf-16le").decode(bytes);
+  }
+  return new TextDecoder(encoding === 3 ? "utf-8" : "iso-8859-1").decode(bytes);
+}
+
+function findTerminator(bytes: Uint8Array, offset: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  let index = offset;
+  while (index < bytes.length) {
+    if (wide) {
+      if (bytes[index] === 0 && bytes[index + 1] === 0) {
+        return index;
+      }
+      index += 2;
+    } else {
+      if (bytes[index] === 0) {
+        return index;
+      }
+      index += 1;
+    }
+  }
+  return bytes.length;
+}
+
+function parseSyltFrame(frame: Uint8Array): SyltEntry[] {
+  if (frame.length < 6) {
+    return [];
+  }
+
+  const encoding = frame[0];
+  const timestampFormat = frame[4];
+  if (timestampFormat !== SYLT_TIMESTAMP_FORMAT_MS) {
+    return [];
+  }
+
+  const terminatorLength = encoding === 1 || encoding === 2 ? 2 : 1;
+  let offset = findTerminator(frame, 6, encoding) + terminatorLength;
+  const entries: SyltEntry[] = [];
+  while (offset < frame.length) {
+    const end = findTerminator(frame, offset, encoding);
+    const text = decodeText(frame.subarray(offset, end), encoding);
+    offset = end + terminatorLength;
+    if (offset + 4 > frame.length) {
+      break;
+    }
+    entries.push({ timeMs: uint32(frame, offset), text });
+    offset += 4;
+  }
+  return entries;
+}
+
+function entriesToLines(entries: SyltEntry[]): LyricLine[] {
+  const usesLineBreaks = entries.some((entry, index) => index > 0 && /^[\r\n]/.test(entry.text));
+  if (!usesLineBreaks) {
+    return entries
+      .filter((entry) => entry.text.trim())
+      .map((entry) => ({ timeMs: entry.timeMs, text: entry.text.trim() }));
+  }
+
+  const grouped: LyricWord[][] = [];
+  for (const entry of entries) {
+    if (grouped.length === 0 || /^[\r\n]/.test(entry.text)) {
+      grouped.push([]);
+    }
+    const text = entry.text.replace(/^[\r\n]+/, "");
+    if (text) {
+      grouped[grouped.length - 1].push({ timeMs: entry.timeMs, text });
+    }
+  }
+
+  return grouped
+    .filter((words) => words.length > 0)
+    .map((words) => ({
+      timeMs: words[0].timeMs,
+      text: words.map((word) => word.text).join("").trim() || "...",
+      words: words.length > 1 ? words : undefined,
+    }));
+}
+
+export async function readSyltLyrics(file: Blob): Promise<LyricLine[]> {
+  const header = new Uint8Array(await file.slice(0, ID3_HEADER_SIZE).arrayBuffer());
+  if (header.length < ID3_HEADER_SIZE || header[0] !== 0x49 || header[1] !== 0x44 || header[2] !== 0x33) {
+    return [];
+  }
+
+  const majorVersion = header[3];
+  if (majorVersion !== 3 && majorVersion !== 4) {
+    return [];
+  }
+
+  const flags = header[5];
+  const tagSize = syncsafeInt(header, 6);
+  let tag: Uint8Array = new Uint8Array(await file.slice(ID3_HEADER_SIZE, ID3_HEADER_SIZE + tagSize).arrayBuffer());
+  if (majorVersion === 3 && flags & 0x80) {
+    tag = removeUnsynchronisation(tag);
+  }
+
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = majorVersion === 4 ? syncsafeInt(tag, 0) : uint32(tag, 0) + 4;
+  }
+
+  while (offset + ID3_HEADER_SIZE <= tag.length) {
+    const frameId = String.fromCharCode(tag[offset], tag[offset + 1], tag[offset + 2], tag[offset + 3]);
+    if (!/^[A-Z0-9]{4}$/.test(frameId)) {
+      break;
+    }
+
+    const frameSize = majorVersion === 4 ? syncsafeInt(tag, offset + 4) : uint32(tag, offset + 4);
+    const formatFlags = tag[offset + 9];
+    const frameStart = offset + ID3_HEADER_SIZE;
+    offset = frameStart + frameSize;
+    if (frameId !== "SYLT") {
+      continue;
+    }
+
+    let frame: Uint8Array = tag.subarray(frameStart, Math.min(tag.length, frameStart + frameSize));
+    if (majorVersion === 4) {
+      if (formatFlags & 0x01) {
+        frame = frame.subarray(4);
+      }
+      if (formatFlags & 0x02) {
+        frame = removeUnsynchronisation(frame);
+      }
+    }
+
+    const lines = entriesToLines(parseSyltFrame(frame));
+    if (lines.length > 0) {
+      return groupTranslations(lines.sort((a, b) => a.timeMs - b.timeMs));
+    }
+  }
+
+  return [];
+}